@@ -0,0 +1,19 @@
+-- Add Per-Rule Case Policy
+-- Run this in Supabase SQL Editor after add-inflection.sql
+
+-- ============================================================================
+-- 1. COMPRESSIONS.CASE_POLICY (How a rule's compressed form is cased)
+-- ============================================================================
+-- auto     - a form written with capitals ("ML") keeps them, a lowercase one follows the source
+-- preserve - always the form exactly as stored
+-- source   - follow the replaced words: ALL CAPS, Title Case, Capitalized or lowercase
+-- upper    - always uppercase
+ALTER TABLE compressions
+    ADD COLUMN IF NOT EXISTS case_policy VARCHAR(10) NOT NULL DEFAULT 'auto'
+    CHECK (case_policy IN ('auto', 'preserve', 'source', 'upper'));
+
+-- Verify the migration
+SELECT case_policy, COUNT(*) AS rules
+FROM compressions
+GROUP BY case_policy
+ORDER BY case_policy;
@@ -0,0 +1,24 @@
+-- Add Inflection Matching to Word Rules
+-- Run this in Supabase SQL Editor after add-rule-conditions.sql
+
+-- ============================================================================
+-- 1. COMPRESSIONS.INFLECT (Word rule also matches inflected forms)
+-- ============================================================================
+-- "explain" → "xpln" with inflect = true also turns "explains" into "xplns",
+-- "explained" into "xplnd" and "explaining" into "xplnng". English word rules only.
+ALTER TABLE compressions
+    ADD COLUMN IF NOT EXISTS inflect BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- 2. OPT IN SEED RULES WHOSE PLURALS READ NATURALLY
+-- ============================================================================
+UPDATE compressions
+SET inflect = true
+WHERE pass_priority = 2
+  AND original_text IN ('document', 'application', 'technology');
+
+-- Verify the migration
+SELECT original_text, compressed_form, inflect
+FROM compressions
+WHERE inflect
+ORDER BY original_text;
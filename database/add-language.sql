@@ -0,0 +1,72 @@
+-- Add Language Support to Rules and Misses
+-- Run this in Supabase SQL Editor after add-pass-zero-patterns.sql
+
+-- ============================================================================
+-- 1. COMPRESSIONS.LANGUAGE (Rules only apply to text in their language)
+-- ============================================================================
+ALTER TABLE compressions
+    ADD COLUMN IF NOT EXISTS language VARCHAR(2) NOT NULL DEFAULT 'en'
+    CHECK (language IN ('en', 'es', 'de'));
+
+-- ============================================================================
+-- 2. MISS_LOG.LANGUAGE (Language of the text the miss was seen in)
+-- ============================================================================
+ALTER TABLE miss_log
+    ADD COLUMN IF NOT EXISTS language VARCHAR(2) NOT NULL DEFAULT 'en'
+    CHECK (language IN ('en', 'es', 'de'));
+
+-- ============================================================================
+-- 3. INDEXES
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_compressions_language ON compressions(language, pass_priority);
+CREATE INDEX IF NOT EXISTS idx_miss_log_language ON miss_log(language, frequency DESC);
+
+-- A text is one miss per language - logMiss upserts on (word_phrase, language)
+ALTER TABLE miss_log DROP CONSTRAINT IF EXISTS miss_log_word_phrase_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_miss_log_phrase_language ON miss_log(word_phrase, language);
+
+-- ============================================================================
+-- 4. LANGUAGE-AWARE TEXT HASHES (A rule's text can repeat across languages)
+-- ============================================================================
+-- English rules keep md5(text); other languages hash 'language:text', as /api/admin/add-rule does
+UPDATE compressions
+SET text_hash = md5(language || ':' || lower(original_text))
+WHERE language <> 'en' AND text_hash = md5(lower(original_text));
+
+-- ============================================================================
+-- 5. SPANISH AND GERMAN PASS 0 PREFIXES
+-- ============================================================================
+INSERT INTO compressions (
+  text_hash,
+  original_text,
+  compressed_form,
+  compression_ratio,
+  confidence_score,
+  usage_count,
+  pass_priority,
+  word_count,
+  compression_type,
+  language,
+  created_at,
+  updated_at
+) VALUES
+(md5('es:puedes por favor'), 'puedes por favor', '?', 94, 0.95, 0, 0, 3, 'prefix', 'es', NOW(), NOW()),
+(md5('es:podrías por favor'), 'podrías por favor', '?', 94, 0.95, 0, 0, 3, 'prefix', 'es', NOW(), NOW()),
+(md5('es:sería posible'), 'sería posible', '?', 92, 0.90, 0, 0, 2, 'prefix', 'es', NOW(), NOW()),
+(md5('es:puedes'), 'puedes', '?', 83, 0.85, 0, 0, 1, 'prefix', 'es', NOW(), NOW()),
+(md5('es:podrías'), 'podrías', '?', 86, 0.85, 0, 0, 1, 'prefix', 'es', NOW(), NOW()),
+(md5('es:por favor'), 'por favor', '?', 89, 0.75, 0, 0, 2, 'prefix', 'es', NOW(), NOW()),
+(md5('de:kannst du bitte'), 'kannst du bitte', '?', 93, 0.95, 0, 0, 3, 'prefix', 'de', NOW(), NOW()),
+(md5('de:könntest du bitte'), 'könntest du bitte', '?', 94, 0.95, 0, 0, 3, 'prefix', 'de', NOW(), NOW()),
+(md5('de:wäre es möglich'), 'wäre es möglich', '?', 93, 0.90, 0, 0, 3, 'prefix', 'de', NOW(), NOW()),
+(md5('de:kannst du'), 'kannst du', '?', 89, 0.85, 0, 0, 2, 'prefix', 'de', NOW(), NOW()),
+(md5('de:könntest du'), 'könntest du', '?', 91, 0.85, 0, 0, 2, 'prefix', 'de', NOW(), NOW()),
+(md5('de:bitte'), 'bitte', '?', 80, 0.75, 0, 0, 1, 'prefix', 'de', NOW(), NOW())
+
+ON CONFLICT (text_hash) DO NOTHING;
+
+-- Verify the migration
+SELECT language, pass_priority, COUNT(*) AS rules
+FROM compressions
+GROUP BY language, pass_priority
+ORDER BY language, pass_priority;
@@ -0,0 +1,45 @@
+-- Add Rule Conditions (context-sensitive rules)
+-- Run this in Supabase SQL Editor after add-language.sql
+
+-- ============================================================================
+-- 1. COMPRESSIONS.CONTEXT (JSON conditions checked before a rule fires)
+-- ============================================================================
+-- {"precededBy": [...], "notPrecededBy": [...], "followedBy": [...], "notFollowedBy": [...],
+--  "positions": ["start" | "middle" | "end"], "excludeContexts": ["for loop", ...]}
+-- Neighbor lists take lowercased words or the word classes #number and #capitalized.
+-- A value that isn't a JSON object is treated as a note and adds no conditions.
+ALTER TABLE compressions
+    ADD COLUMN IF NOT EXISTS context TEXT;
+
+-- ============================================================================
+-- 2. SHORT-WORD RULES (aggressive mode only - confidence below 0.70)
+-- ============================================================================
+INSERT INTO compressions (
+  text_hash,
+  original_text,
+  compressed_form,
+  compression_rule,
+  compression_ratio,
+  confidence_score,
+  usage_count,
+  pass_priority,
+  word_count,
+  compression_type,
+  context,
+  created_at,
+  updated_at
+) VALUES
+(md5('for'), 'for', '4', 'for → 4', 67, 0.50, 0, 2, 1, 'word',
+  '{"positions": ["middle"], "notFollowedBy": ["loop", "loops", "each", "example", "instance", "#number"], "excludeContexts": ["for in", "for of"]}',
+  NOW(), NOW()),
+(md5('to'), 'to', '2', 'to → 2', 50, 0.50, 0, 2, 1, 'word',
+  '{"positions": ["middle"], "notPrecededBy": ["#number", "from"], "notFollowedBy": ["#number"]}',
+  NOW(), NOW())
+
+ON CONFLICT (text_hash) DO NOTHING;
+
+-- Verify the migration
+SELECT original_text, compressed_form, confidence_score, context
+FROM compressions
+WHERE context IS NOT NULL
+ORDER BY pass_priority, original_text;
@@ -0,0 +1,52 @@
+-- Add User-Defined Rule Sets (personal dictionaries)
+-- Run this in Supabase SQL Editor after schema.sql
+
+-- ============================================================================
+-- 1. RULE_SETS TABLE (Named dictionaries owned by an API key or a session)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS rule_sets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+
+    -- Ownership - exactly one owner per set
+    owner_key_hash VARCHAR(32),                       -- MD5 of the owning API key
+    owner_session VARCHAR(50),                        -- Session that created the set (no API key)
+    CHECK ((owner_key_hash IS NULL) <> (owner_session IS NULL)),
+
+    -- Timestamps
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================================================
+-- 2. RULE_SET_RULES TABLE (Overrides and exclusions layered on global rules)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS rule_set_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rule_set_id UUID NOT NULL REFERENCES rule_sets(id) ON DELETE CASCADE,
+
+    -- Rule Data
+    original_text TEXT NOT NULL,                      -- Stored lowercased
+    compressed_form TEXT,                             -- NULL for exclusions
+    action VARCHAR(10) NOT NULL CHECK (action IN ('override', 'exclude')),
+    confidence_score DECIMAL(3,2) DEFAULT 0.90,       -- Team rules are curated by their owners
+
+    created_at TIMESTAMP DEFAULT NOW(),
+
+    UNIQUE (rule_set_id, original_text),
+    CHECK (action = 'exclude' OR compressed_form IS NOT NULL)
+);
+
+-- ============================================================================
+-- 3. INDEXES AND ACCESS
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_rule_sets_owner_key ON rule_sets(owner_key_hash);
+CREATE INDEX IF NOT EXISTS idx_rule_sets_owner_session ON rule_sets(owner_session);
+CREATE INDEX IF NOT EXISTS idx_rule_set_rules_set ON rule_set_rules(rule_set_id);
+
+ALTER TABLE rule_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rule_set_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY IF NOT EXISTS "Allow all operations on rule_sets" ON rule_sets FOR ALL USING (true);
+CREATE POLICY IF NOT EXISTS "Allow all operations on rule_set_rules" ON rule_set_rules FOR ALL USING (true);
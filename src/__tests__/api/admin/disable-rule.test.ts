@@ -0,0 +1,62 @@
+/**
+ * Test Suite for the Disable Rule API
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import handler from '@/pages/api/admin/disable-rule'
+import { confidenceSystem } from '@/lib/confidence-system'
+
+jest.mock('@/lib/confidence-system', () => ({
+  confidenceSystem: {
+    manuallyAdjustConfidence: jest.fn(() => Promise.resolve({ patternId: 'rule-1', oldConfidence: 0.8, newConfidence: 0, adjustment: -0.8, reason: 'disabled by admin' }))
+  }
+}))
+
+const call = async (headers: Record<string, string> = {}) => {
+  const req = { method: 'POST', headers, body: { ruleId: 'rule-1' } } as unknown as NextApiRequest
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader: jest.fn(),
+    status(code: number) {
+      this.statusCode = code
+      return this
+    },
+    json(body: unknown) {
+      this.body = body
+    },
+    end: jest.fn()
+  }
+  await handler(req, res as unknown as NextApiResponse)
+  return res
+}
+
+describe('Disable Rule API', () => {
+  const adminKey = process.env.ADMIN_SECRET_KEY
+
+  beforeEach(() => {
+    process.env.ADMIN_SECRET_KEY = 'admin-secret'
+    jest.clearAllMocks()
+  })
+
+  afterAll(() => {
+    if (adminKey === undefined) delete process.env.ADMIN_SECRET_KEY
+    else process.env.ADMIN_SECRET_KEY = adminKey
+  })
+
+  test('should refuse calls without a valid admin key', async () => {
+    const missing = await call()
+    const wrong = await call({ 'x-admin-key': 'guess' })
+
+    expect(missing.statusCode).toBe(401)
+    expect(wrong.statusCode).toBe(401)
+    expect(confidenceSystem.manuallyAdjustConfidence).not.toHaveBeenCalled()
+  })
+
+  test('should disable the rule for admins', async () => {
+    const res = await call({ 'x-admin-key': 'admin-secret' })
+
+    expect(res.statusCode).toBe(200)
+    expect(confidenceSystem.manuallyAdjustConfidence).toHaveBeenCalledWith('rule-1', 0, 'disabled by admin')
+  })
+})
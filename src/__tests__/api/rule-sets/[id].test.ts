@@ -0,0 +1,77 @@
+/**
+ * Test Suite for the Rule Set API
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import handler from '@/pages/api/rule-sets/[id]'
+import { db } from '@/lib/supabase'
+
+const RULE_SET_ID = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e'
+
+jest.mock('@/lib/supabase', () => ({
+  db: {
+    getRuleSet: jest.fn(() => Promise.resolve({ id: '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e', name: 'Platform team', description: null, owner_key_hash: null, owner_session: 'session-1', created_at: '', updated_at: '' })),
+    getRuleSetRules: jest.fn(() => Promise.resolve([])),
+    upsertRuleSetRules: jest.fn(() => Promise.resolve()),
+    deleteRuleSetRules: jest.fn(() => Promise.resolve())
+  }
+}))
+
+const put = async (body: Record<string, unknown>) => {
+  const req = {
+    method: 'PUT',
+    headers: {},
+    query: { id: RULE_SET_ID },
+    body: { sessionId: 'session-1', ...body },
+    socket: { remoteAddress: '10.0.0.1' }
+  } as unknown as NextApiRequest
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader: jest.fn(),
+    status(code: number) {
+      this.statusCode = code
+      return this
+    },
+    json(body: unknown) {
+      this.body = body
+    },
+    end: jest.fn()
+  }
+  await handler(req, res as unknown as NextApiResponse)
+  return res
+}
+
+describe('Rule Set API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test('should reject texts that appear twice after normalizing', async () => {
+    const overrides = await put({
+      overrides: [
+        { originalText: 'Acme Platform', compressedForm: 'AP' },
+        { originalText: 'acme  platform ', compressedForm: 'AcP' }
+      ]
+    })
+    const mixed = await put({
+      overrides: [{ originalText: 'acme platform', compressedForm: 'AP' }],
+      exclusions: ['ACME platform']
+    })
+
+    expect(overrides.statusCode).toBe(400)
+    expect(mixed.statusCode).toBe(400)
+    expect(mixed.body).toMatchObject({ success: false, error: expect.stringContaining('"acme platform" appears more than once') })
+    expect(db.upsertRuleSetRules).not.toHaveBeenCalled()
+  })
+
+  test('should upsert distinct texts', async () => {
+    const res = await put({
+      overrides: [{ originalText: 'acme platform', compressedForm: 'AP' }],
+      exclusions: ['understand']
+    })
+
+    expect(res.statusCode).toBe(200)
+    expect(db.upsertRuleSetRules).toHaveBeenCalledTimes(1)
+  })
+})
@@ -7,6 +7,7 @@ interface CompressionResult {
   processingTime: number
   rulesApplied: AppliedRule[]
   fromCache: boolean
+  segments?: CompressionSegment[]
   passResults: {
     pass1: { tokensProcessed: number; rulesApplied: number; processingTime: number }
     pass2: { tokensProcessed: number; rulesApplied: number; processingTime: number }
@@ -21,6 +22,54 @@ interface AppliedRule {
   priority: number
 }
 
+interface CompressionSegment {
+  type: 'unchanged' | 'replaced' | 'removed'
+  original: string
+  compressed: string
+  start: number
+  end: number
+  ruleId?: string
+  pass?: number
+  removal?: string
+}
+
+const PASS_NAMES: Record<number, string> = {
+  0: 'Pass 0 (Prefixes & Filler)',
+  1: 'Pass 1 (Phrases)',
+  2: 'Pass 2 (Words)',
+  3: 'Template Pass',
+  4: 'Registered Pass'
+}
+
+/**
+ * One changed span of the inline diff, with its details on hover
+ */
+const ChangedSegment: React.FC<{ segment: CompressionSegment }> = ({ segment }) => {
+  const removed = segment.type === 'removed'
+  const whitespaceOnly = segment.original.trim().length === 0 && segment.compressed.trim().length === 0
+
+  // Dropped whitespace has nothing worth highlighting
+  if (removed && whitespaceOnly) return null
+
+  return (
+    <span className="relative group">
+      {segment.original.trim().length > 0 && (
+        <del className="bg-red-100 text-red-700 line-through">{segment.original}</del>
+      )}
+      {!removed && (
+        <ins className="bg-green-100 text-green-800 no-underline font-semibold">{segment.compressed}</ins>
+      )}
+      <span className="hidden group-hover:block absolute left-0 top-full z-10 mt-1 w-64 p-2 bg-gray-900 text-white text-xs rounded shadow-lg font-sans">
+        <div>{removed ? 'Removed' : 'Replaced'}: "{segment.original.trim()}"{!removed && ` → "${segment.compressed}"`}</div>
+        {segment.pass !== undefined && <div>{PASS_NAMES[segment.pass] ?? `Pass ${segment.pass}`}</div>}
+        {segment.removal && <div>Kind: {segment.removal}</div>}
+        {segment.ruleId && <div className="truncate">Rule: {segment.ruleId}</div>}
+        <div>Characters {segment.start}-{segment.end}</div>
+      </span>
+    </span>
+  )
+}
+
 const CompressionInterface: React.FC = () => {
   const [text, setText] = useState('')
   const [result, setResult] = useState<CompressionResult | null>(null)
@@ -161,6 +210,19 @@ const CompressionInterface: React.FC = () => {
                 </div>
               </div>
 
+              {result.segments && result.segments.length > 0 && (
+                <div className="p-4 bg-white border border-gray-200 rounded-lg">
+                  <h4 className="font-semibold text-gray-800 mb-2">🔍 Changes (hover for details):</h4>
+                  <div className="font-mono text-sm whitespace-pre-wrap leading-relaxed">
+                    {result.segments.map((segment, index) => (
+                      segment.type === 'unchanged'
+                        ? <span key={index}>{segment.compressed}</span>
+                        : <ChangedSegment key={index} segment={segment} />
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg">
                 <div className="text-center">
                   <div className="text-2xl font-bold text-blue-600">{result.compressionRatio}%</div>
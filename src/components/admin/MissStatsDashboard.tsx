@@ -312,6 +312,7 @@ const AddRuleModal: React.FC<AddRuleModalProps> = ({
 }) => {
   const [compressedForm, setCompressedForm] = useState('')
   const [confidence, setConfidence] = useState(0.70)
+  const [adminKey, setAdminKey] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -329,7 +330,7 @@ const AddRuleModal: React.FC<AddRuleModalProps> = ({
     try {
       const response = await fetch('/api/admin/add-rule', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'x-admin-key': adminKey },
         body: JSON.stringify({
           originalText,
           compressedForm: compressedForm.trim(),
@@ -401,6 +402,19 @@ const AddRuleModal: React.FC<AddRuleModalProps> = ({
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Admin Key
+            </label>
+            <input
+              type="password"
+              value={adminKey}
+              onChange={(e) => setAdminKey(e.target.value)}
+              placeholder="ADMIN_SECRET_KEY"
+              className="w-full p-2 border rounded font-mono"
+            />
+          </div>
+
           {error && (
             <div className="text-red-600 text-sm bg-red-50 p-2 rounded">
               {error}
@@ -0,0 +1,87 @@
+/**
+ * Case Policy
+ * Decides how a compressed form is cased in the output. By default a rule written
+ * with capitals ("ML", "TypeScript") keeps them, and a lowercase rule follows the
+ * casing of the words it replaced - ALL CAPS, Title Case or a capitalized sentence start.
+ */
+
+export type CasePolicy = 'auto' | 'preserve' | 'source' | 'upper'
+
+export const CASE_POLICIES: CasePolicy[] = ['auto', 'preserve', 'source', 'upper']
+
+type SourceCase = 'upper' | 'title' | 'capitalized' | 'camel' | 'lower'
+
+/**
+ * Check whether a value names a case policy
+ */
+export function isCasePolicy(value: unknown): value is CasePolicy {
+  return typeof value === 'string' && CASE_POLICIES.indexOf(value as CasePolicy) !== -1
+}
+
+/**
+ * Case a compressed form for the source text it replaces
+ */
+export function applyCasePolicy(source: string, compressed: string, policy: CasePolicy = 'auto'): string {
+  const sourceCase = classifySource(source)
+
+  if (policy === 'upper') return compressed.toUpperCase()
+  if (policy === 'preserve') return compressed
+  // "ML" stays "ML" whatever the source - unless the whole source was shouted
+  if (policy === 'auto' && hasUpper(compressed)) {
+    return sourceCase === 'upper' ? compressed.toUpperCase() : compressed
+  }
+
+  switch (sourceCase) {
+    case 'upper':
+      return compressed.toUpperCase()
+    case 'title':
+      return compressed.split(' ').map(capitalize).join(' ')
+    case 'capitalized':
+      return capitalize(compressed)
+    case 'camel':
+      // A CamelCase name has no casing to carry over - the rule's own casing wins
+      return compressed
+    default:
+      return compressed.toLowerCase()
+  }
+}
+
+/**
+ * Classify the casing of the replaced words
+ */
+function classifySource(source: string): SourceCase {
+  const words = source.split(/\s+/).map(letters).filter(word => word.length > 0)
+  if (words.length === 0) return 'lower'
+
+  if (words.join('').length > 1 && words.every(word => word === word.toUpperCase())) return 'upper'
+
+  const first = words[0]
+  const isCapitalized = (word: string) => word[0] !== word[0].toLowerCase() && word.slice(1) === word.slice(1).toLowerCase()
+  if (words.length > 1 && words.every(word => isCapitalized(word) || (word.length > 1 && word === word.toUpperCase()))) {
+    return 'title'
+  }
+  if (isCapitalized(first)) return 'capitalized'
+  if (first !== first.toLowerCase()) return 'camel'
+  return 'lower'
+}
+
+/**
+ * Letters of a word, punctuation and digits removed
+ */
+function letters(word: string): string {
+  return word.split('').filter(char => char.toLowerCase() !== char.toUpperCase()).join('')
+}
+
+/**
+ * Check whether a compressed form was written with capitals
+ */
+function hasUpper(text: string): boolean {
+  return text !== text.toLowerCase()
+}
+
+/**
+ * Uppercase the first letter, lowercase the rest
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+}
@@ -0,0 +1,50 @@
+/**
+ * Test Suite for the Elision Pass
+ */
+
+import { elidableWords, isNegation } from './elision'
+import { extractCleanWords } from '../text-utils'
+
+const elided = (text: string) => {
+  const words = extractCleanWords(text)
+  return elidableWords(words).map(index => words[index].original)
+}
+
+describe('Elision Pass', () => {
+  test('should drop articles, "that" and intensifiers', () => {
+    expect(elided('Make sure that the build is really fast')).toEqual(['that', 'the'])
+    expect(elided('Write a very short summary of an article for me')).toEqual(['a', 'very', 'an'])
+  })
+
+  test('should never drop a word next to a negation', () => {
+    expect(elided("The tests really don't pass")).toEqual(['The'])
+    expect(elided('It is the never ending build and we really don’t know why')).toEqual([])
+    expect(elided('It is not very fast on a laptop')).toEqual(['a'])
+    expect(elided('It is not the one I asked for')).toEqual([])
+  })
+
+  test('should leave quoted text alone', () => {
+    expect(elided('Search the logs for "the very first error" and a stack trace')).toEqual(['the', 'a'])
+    expect(elided('Reply with “that is a bug” in the thread')).toEqual(['the'])
+  })
+
+  test('should cap elisions per sentence', () => {
+    expect(elided('The the the the the the')).toEqual(['The', 'the'])
+    expect(elided('Fix the bug. Update the docs.')).toEqual(['the', 'the'])
+  })
+
+  test('should keep words that are not articles here', () => {
+    expect(elided('Pick plan A for the launch')).toEqual(['the'])
+    expect(elided('That works. I like that')).toEqual([])
+    expect(elided('Is that it for the day?')).toEqual(['the'])
+    expect(elided('Is that the answer you want here?')).toEqual(['the'])
+    expect(elided('I think that we should ship it')).toEqual(['that'])
+    expect(elided('Use the `config` file')).toEqual([])
+  })
+
+  test('should recognize negations', () => {
+    expect(isNegation('not')).toBe(true)
+    expect(isNegation("isn't")).toBe(true)
+    expect(isNegation('note')).toBe(false)
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Elision Pass
+ * Drops low-information words - articles, "that" and intensifiers - for the telegraphic
+ * style downstream models read fine. A guard keeps every word whose loss could change
+ * the meaning: nothing next to a negation, nothing inside quotes and at most one word in
+ * three per sentence. Opt-in, English only (like Pass 0 filler removal), and off in
+ * conservative mode.
+ */
+
+import type { CompressionPass, PassContext } from './pass-pipeline'
+import type { PassResult } from './two-pass-engine'
+import { endsSentence, CleanWord } from '../text-utils'
+
+export const ELISION_PASS_ID = 'elision'
+
+// Confidence of an elision - runs whose threshold is stricter keep every word
+export const ELISION_CONFIDENCE = 0.75
+
+// A sentence loses at most one word in this many
+export const WORDS_PER_ELISION = 3
+
+// The articles and "that" of the miss tracker's SKIP_WORDS - the rest of that list
+// (pronouns, prepositions, verbs) carries meaning - plus intensifiers
+const ARTICLES = ['a', 'an', 'the']
+const INTENSIFIERS = ['very', 'really']
+
+// "that" only goes where it introduces a clause - after a verb that takes one and before
+// its subject: "make sure that the tests pass", "I think that we should"
+const CLAUSE_VERBS = [
+  'think', 'thought', 'say', 'said', 'says', 'know', 'knew', 'knows', 'ensure', 'ensures', 'sure',
+  'believe', 'mean', 'means', 'hope', 'assume', 'suppose', 'guess', 'feel', 'realize', 'realized',
+  'notice', 'noticed', 'confirm', 'verify', 'check', 'show', 'shows', 'found', 'find', 'expect', 'agree'
+]
+const CLAUSE_STARTS = [
+  'i', 'you', 'he', 'she', 'it', 'we', 'they', 'there', 'this', 'these', 'those',
+  'the', 'a', 'an', 'my', 'our', 'your', 'his', 'her', 'its', 'their'
+]
+
+const NEGATIONS = ['not', 'no', 'never', 'nothing', 'none', 'nobody', 'nor', 'neither', 'cannot', 'without']
+
+const OPENING_QUOTE = /["'«„“‘‹]/
+const CLOSING_QUOTE = /["'»“”’›]/
+
+/**
+ * Check whether a clean word negates - "not", "never", "don't", "isn’t"...
+ */
+export function isNegation(word: string): boolean {
+  return NEGATIONS.indexOf(word) !== -1 || /n['’]t$/.test(word)
+}
+
+/**
+ * Words of each sentence the guard lets go, by token index
+ */
+export function elidableWords(words: CleanWord[], processed: boolean[] = []): number[] {
+  const elidable: number[] = []
+  let quoted = false
+  let sentenceStart = 0
+  let candidates: number[] = []
+
+  words.forEach((word, index) => {
+    // Inside quotes from the word that opens them through the word that closes them
+    if (!quoted && OPENING_QUOTE.test(word.leadingPunctuation)) quoted = true
+    const insideQuotes = quoted
+    if (quoted && CLOSING_QUOTE.test(word.trailingPunctuation)) quoted = false
+
+    const last = endsSentence(words, index)
+    if (!insideQuotes && !processed[index] && !last && isElidable(words, index, sentenceStart)) {
+      candidates.push(index)
+    }
+
+    if (last) {
+      const length = words.slice(sentenceStart, index + 1).filter(candidate => candidate.clean.length > 0).length
+      elidable.push(...candidates.slice(0, Math.floor(length / WORDS_PER_ELISION)))
+      candidates = []
+      sentenceStart = index + 1
+    }
+  })
+
+  return elidable
+}
+
+/**
+ * Whether one word can go, judged by its neighbors in the sentence
+ */
+function isElidable(words: CleanWord[], index: number, sentenceStart: number): boolean {
+  const word = words[index]
+  const next = words[index + 1]
+  if (word.protectedKind || word.leadingPunctuation || word.trailingPunctuation) return false
+  if (!next || next.protectedKind || next.clean.length === 0 || isNegation(next.clean)) return false
+
+  // "not very good" is not "not good", and "not the one" is not "not one"
+  const previous = index > sentenceStart ? words[index - 1] : undefined
+  if (previous && isNegation(previous.clean)) return false
+
+  if (ARTICLES.indexOf(word.clean) !== -1) {
+    // "Plan A" - a capital A past the start of a sentence is a name, not an article
+    return !(word.original === 'A' && previous)
+  }
+  if (INTENSIFIERS.indexOf(word.clean) !== -1) return true
+  if (word.clean === 'that') {
+    return !!previous && !previous.trailingPunctuation && CLAUSE_VERBS.indexOf(previous.clean) !== -1 &&
+      CLAUSE_STARTS.indexOf(next.clean) !== -1
+  }
+  return false
+}
+
+/**
+ * The elision pass - registered as an opt-in pass of the default pipeline
+ */
+export const elisionPass: CompressionPass = {
+  id: ELISION_PASS_ID,
+  run(context: PassContext): PassResult {
+    let removed = 0
+    if (context.language !== 'en' || context.threshold > ELISION_CONFIDENCE) {
+      return { tokensProcessed: 0, rulesApplied: 0, processingTime: 0 }
+    }
+
+    const words = context.tokens.map(token => token.cleanWord)
+    elidableWords(words, context.tokens.map(token => token.processed)).forEach(index => {
+      const rule = { id: `elision-${words[index].clean}`, confidence: ELISION_CONFIDENCE }
+      if (context.remove(index, 1, rule)) removed++
+    })
+
+    return { tokensProcessed: removed, rulesApplied: removed, processingTime: 0 }
+  }
+}
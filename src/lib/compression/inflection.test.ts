@@ -0,0 +1,38 @@
+/**
+ * Test Suite for Inflection Matching
+ */
+
+import { baseForms, inflectCompressed } from './inflection'
+
+const bases = (word: string) => baseForms(word).map(form => `${form.base}/${form.inflection}`)
+
+describe('Inflection Matching', () => {
+  test('should strip plural and third-person endings', () => {
+    expect(bases('explains')).toEqual(['explain/s'])
+    expect(bases('queries')).toEqual(['query/s'])
+    expect(bases('fixes')).toEqual(['fix/s'])
+    expect(bases('process')).toEqual([])
+  })
+
+  test('should strip past tense endings', () => {
+    expect(bases('explained')).toEqual(['explain/ed', 'explaine/ed'])
+    expect(bases('used')).toEqual(['use/ed'])
+    expect(bases('stopped')).toEqual(['stopp/ed', 'stoppe/ed', 'stop/ed'])
+    expect(bases('copied')).toEqual(['copy/ed'])
+  })
+
+  test('should strip progressive endings', () => {
+    expect(bases('making')).toEqual(['mak/ing', 'make/ing'])
+    expect(bases('running')).toEqual(['runn/ing', 'runne/ing', 'run/ing'])
+  })
+
+  test('should not strip words down to fragments', () => {
+    expect(bases('sing')).toEqual([])
+    expect(bases('bus')).toEqual([])
+  })
+
+  test('should carry the inflection over to the compressed form', () => {
+    expect(inflectCompressed('xpln', 'ed')).toBe('xplnd')
+    expect(inflectCompressed('doc', 's')).toBe('docs')
+  })
+})
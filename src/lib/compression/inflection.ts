@@ -0,0 +1,72 @@
+/**
+ * Inflection Matching
+ * Maps inflected English words back to the base form a word rule was written for
+ * ("explained" → "explain") and carries the inflection over to the compressed form
+ * ("xpln" → "xplnd"). Suffix stripping only - cheap, local, no dictionary.
+ */
+
+export type Inflection = 's' | 'ed' | 'ing'
+
+export interface BaseForm {
+  base: string
+  inflection: Inflection
+}
+
+// Suffix added to a compressed form for each inflection
+export const COMPRESSED_SUFFIXES: Record<Inflection, string> = {
+  s: 's',
+  ed: 'd',
+  ing: 'ng'
+}
+
+// Shortest base a suffix may be stripped down to ("sing" is not "s" + "ing")
+const MIN_BASE_LENGTH = 3
+
+/**
+ * Candidate base forms of a lowercased word, most likely first
+ */
+export function baseForms(word: string): BaseForm[] {
+  const candidates: BaseForm[] = []
+  const add = (base: string, inflection: Inflection) => {
+    if (base.length >= MIN_BASE_LENGTH && /^[a-z]+$/.test(base)) {
+      candidates.push({ base, inflection })
+    }
+  }
+
+  if (/ies$/.test(word)) {
+    add(word.slice(0, -3) + 'y', 's')           // queries → query
+  } else if (/(?:s|x|z|ch|sh)es$/.test(word)) {
+    add(word.slice(0, -2), 's')                 // fixes → fix
+  } else if (/[^s]s$/.test(word)) {
+    add(word.slice(0, -1), 's')                 // explains → explain, uses → use
+  }
+
+  if (/ied$/.test(word)) {
+    add(word.slice(0, -3) + 'y', 'ed')          // copied → copy
+  } else if (/ed$/.test(word)) {
+    const stem = word.slice(0, -2)
+    add(stem, 'ed')                             // explained → explain
+    add(stem + 'e', 'ed')                       // used → use
+    if (/([^aeiou])\1$/.test(stem)) {
+      add(stem.slice(0, -1), 'ed')              // stopped → stop
+    }
+  }
+
+  if (/ing$/.test(word)) {
+    const stem = word.slice(0, -3)
+    add(stem, 'ing')                            // explaining → explain
+    add(stem + 'e', 'ing')                      // making → make
+    if (/([^aeiou])\1$/.test(stem)) {
+      add(stem.slice(0, -1), 'ing')             // running → run
+    }
+  }
+
+  return candidates
+}
+
+/**
+ * Carry an inflection over to a compressed form
+ */
+export function inflectCompressed(compressed: string, inflection: Inflection): string {
+  return compressed + COMPRESSED_SUFFIXES[inflection]
+}
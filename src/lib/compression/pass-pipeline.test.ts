@@ -0,0 +1,77 @@
+/**
+ * Test Suite for the Compression Pass Pipeline
+ */
+
+import { PassRegistry, CompressionPass, BUILTIN_PASSES } from './pass-pipeline'
+
+const pass = (id: string): CompressionPass => ({
+  id,
+  run: () => ({ tokensProcessed: 0, rulesApplied: 0, processingTime: 0 })
+})
+
+describe('Compression Pass Pipeline', () => {
+  let registry: PassRegistry
+
+  beforeEach(() => {
+    registry = new PassRegistry()
+  })
+
+  test('should run the built-in passes by default', () => {
+    expect(registry.resolve()).toEqual(BUILTIN_PASSES)
+    expect(registry.resolve({ disablePasses: ['pass0', 'templates'] })).toEqual(['pass1', 'pass2'])
+    expect(registry.resolve({ passes: ['pass2', 'pass1'] })).toEqual(['pass2', 'pass1'])
+  })
+
+  test('should run opt-in passes only when enabled', () => {
+    expect(registry.resolve({ enablePasses: ['elision'] })).toEqual(['pass0', 'templates', 'pass1', 'pass2', 'elision'])
+    expect(registry.resolve({ passes: ['pass1', 'elision'] })).toEqual(['pass1', 'elision'])
+    expect(registry.selectionError({ enablePasses: 'elision' })).toBe('Invalid enablePasses. Use a list of pass ids.')
+  })
+
+  test('should add registered passes to the default pipeline where placed', () => {
+    registry.register(pass('ticket-keys'), { before: 'pass1' })
+    registry.register(pass('signatures'))
+
+    expect(registry.resolve()).toEqual(['pass0', 'templates', 'ticket-keys', 'pass1', 'pass2', 'signatures'])
+    expect(registry.get('ticket-keys')).toBeDefined()
+    expect(registry.get('pass1')).toBeUndefined()
+
+    expect(registry.unregister('ticket-keys')).toBe(true)
+    expect(registry.resolve()).toEqual(['pass0', 'templates', 'pass1', 'pass2', 'signatures'])
+  })
+
+  test('should resolve named pipelines', () => {
+    registry.register(pass('ticket-keys'))
+    registry.definePipeline('tickets', ['pass0', 'ticket-keys', 'pass2'])
+
+    expect(registry.resolve({ passProfile: 'tickets' })).toEqual(['pass0', 'ticket-keys', 'pass2'])
+    expect(registry.resolve({ passProfile: 'tickets', disablePasses: ['pass0'] })).toEqual(['ticket-keys', 'pass2'])
+    expect(() => registry.resolve({ passProfile: 'emails' })).toThrow('Invalid pass pipeline: unknown profile emails')
+  })
+
+  test('should reject pipelines it cannot run', () => {
+    expect(() => registry.resolve({ passes: ['pass1', 'pass0'] })).toThrow('pass0 works on the raw text and must run first')
+    expect(() => registry.resolve({ passes: ['pass1', 'pass1'] })).toThrow('pass1 appears twice')
+    expect(() => registry.resolve({ disablePasses: ['spelling'] })).toThrow('unknown pass spelling')
+    expect(() => registry.register(pass('pass1'))).toThrow('pass1 is already registered')
+    expect(() => registry.register(pass('Ticket Keys'))).toThrow('must be lowercase letters, digits and dashes')
+  })
+
+  test('should explain invalid request options', () => {
+    expect(registry.selectionError({ passes: ['pass1'] })).toBeNull()
+    expect(registry.selectionError({ passes: 'pass1' })).toBe('Invalid passes. Use a list of pass ids.')
+    expect(registry.selectionError({ disablePasses: [1] })).toBe('Invalid disablePasses. Use a list of pass ids.')
+    expect(registry.selectionError({ passProfile: 3 })).toBe('Invalid passProfile. Use the name of a pass pipeline.')
+    expect(registry.selectionError({ passes: ['spelling'] })).toBe('Invalid pass pipeline: unknown pass spelling')
+  })
+
+  test('should change version whenever passes or pipelines change', () => {
+    const start = registry.getVersion()
+    registry.register(pass('ticket-keys'))
+    registry.definePipeline('tickets', ['ticket-keys'])
+    registry.unregister('ticket-keys')
+
+    expect(registry.getVersion()).toBe(start + 3)
+    expect(registry.resolve({ passProfile: 'tickets' })).toEqual([])
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * Compression Pass Pipeline
+ * Which passes a compression runs, and in what order. Pass 0 works on the raw text, so
+ * it runs first or not at all; every other pass works on the shared word tokens. The
+ * built-in passes can be reordered or left out per request or per named pipeline, and
+ * passes registered here - stripping ticket boilerplate, say - run alongside them
+ * without changes to the engine.
+ */
+
+import type { AppliedRule, PassResult, Token } from './two-pass-engine'
+import type { CasePolicy } from './case-policy'
+import type { Language } from '../language'
+import { elisionPass } from './elision'
+
+export type BuiltinPassId = 'pass0' | 'templates' | 'pass1' | 'pass2'
+
+export const BUILTIN_PASSES: BuiltinPassId[] = ['pass0', 'templates', 'pass1', 'pass2']
+
+export const DEFAULT_PIPELINE = 'default'
+
+// Pass number reported on the rules registered passes apply
+export const CUSTOM_PASS_PRIORITY = 4
+
+const PASS_ID_PATTERN = /^[a-z][a-z0-9-]{0,39}$/
+
+export interface PassRule {
+  id: string                // Reported as AppliedRule.id
+  confidence?: number       // Default 1
+  casePolicy?: CasePolicy   // Default 'auto', as for database rules
+}
+
+export interface PassContext {
+  readonly tokens: ReadonlyArray<Readonly<Token>>   // Words after Pass 0 - `processed` ones belong to an earlier rule
+  readonly text: string                             // Text the tokens were taken from
+  readonly appliedRules: ReadonlyArray<AppliedRule>
+  readonly language: Language
+  readonly threshold: number                        // Minimum rule confidence of the run
+  readonly tokenAware: boolean
+  readonly sessionId?: string
+  /** Replace `size` untouched words from `start` - false when a word is taken or out of range */
+  replace(start: number, size: number, compressed: string, rule: PassRule): boolean
+  /** Drop `size` untouched words from `start`, punctuation included */
+  remove(start: number, size: number, rule: PassRule): boolean
+}
+
+export interface CompressionPass {
+  id: string   // Key of its result in CompressionResult.passResults
+  run(context: PassContext): PassResult | Promise<PassResult>
+}
+
+export interface PassSelection {
+  passes?: string[]          // Passes to run, in order - replaces the pipeline's list
+  passProfile?: string       // Named pipeline - default 'default'
+  disablePasses?: string[]   // Left out of whichever list applies
+  enablePasses?: string[]    // Opt-in passes the default pipeline runs
+}
+
+export interface PassPlacement {
+  before?: string
+  after?: string
+  optIn?: boolean   // Skipped by the default pipeline unless a request enables it
+}
+
+/**
+ * Registered passes and named pipelines
+ */
+export class PassRegistry {
+  private readonly passes = new Map<string, CompressionPass>()
+  private readonly pipelines = new Map<string, string[]>()
+  private readonly optIn: string[] = []
+  private version = 0
+
+  constructor() {
+    this.pipelines.set(DEFAULT_PIPELINE, BUILTIN_PASSES.slice())
+    this.register(elisionPass, { optIn: true })
+  }
+
+  /**
+   * Register a pass and add it to the default pipeline - after Pass 2 unless placed
+   */
+  register(pass: CompressionPass, placement: PassPlacement = {}) {
+    if (!PASS_ID_PATTERN.test(pass.id)) {
+      throw new Error(`Invalid pass pipeline: pass id "${pass.id}" must be lowercase letters, digits and dashes`)
+    }
+    if (this.isKnown(pass.id)) {
+      throw new Error(`Invalid pass pipeline: ${pass.id} is already registered`)
+    }
+
+    const order = this.pipelines.get(DEFAULT_PIPELINE) as string[]
+    const anchor = placement.before ?? placement.after
+    if (anchor !== undefined && order.indexOf(anchor) === -1) {
+      throw new Error(`Invalid pass pipeline: unknown pass ${anchor}`)
+    }
+    if (placement.before === 'pass0') {
+      throw new Error('Invalid pass pipeline: pass0 works on the raw text and must run first')
+    }
+
+    this.passes.set(pass.id, pass)
+    if (placement.optIn) this.optIn.push(pass.id)
+    if (placement.before !== undefined) order.splice(order.indexOf(placement.before), 0, pass.id)
+    else if (placement.after !== undefined) order.splice(order.indexOf(placement.after) + 1, 0, pass.id)
+    else order.push(pass.id)
+    this.version++
+  }
+
+  /**
+   * Remove a registered pass from the registry and every pipeline
+   */
+  unregister(id: string): boolean {
+    if (!this.passes.delete(id)) return false
+    if (this.optIn.indexOf(id) !== -1) this.optIn.splice(this.optIn.indexOf(id), 1)
+    this.pipelines.forEach((order, name) => {
+      this.pipelines.set(name, order.filter(passId => passId !== id))
+    })
+    this.version++
+    return true
+  }
+
+  /**
+   * Define or replace a named pipeline
+   */
+  definePipeline(name: string, passes: string[]) {
+    if (!PASS_ID_PATTERN.test(name)) {
+      throw new Error(`Invalid pass pipeline: name "${name}" must be lowercase letters, digits and dashes`)
+    }
+    this.validate(passes)
+    this.pipelines.set(name, passes.slice())
+    this.version++
+  }
+
+  /**
+   * Registered pass by id - undefined for built-in passes
+   */
+  get(id: string): CompressionPass | undefined {
+    return this.passes.get(id)
+  }
+
+  /**
+   * Built-in or registered pass ids
+   */
+  isKnown(id: string): boolean {
+    return BUILTIN_PASSES.indexOf(id as BuiltinPassId) !== -1 || this.passes.has(id)
+  }
+
+  /**
+   * Passes a request runs, in order
+   */
+  resolve(selection: PassSelection = {}): string[] {
+    const profile = selection.passProfile ?? DEFAULT_PIPELINE
+    const pipeline = this.pipelines.get(profile)
+    if (!pipeline) {
+      throw new Error(`Invalid pass pipeline: unknown profile ${profile}`)
+    }
+
+    const enabled = selection.enablePasses ?? []
+    const disabled = selection.disablePasses ?? []
+    enabled.concat(disabled).forEach(id => {
+      if (!this.isKnown(id)) throw new Error(`Invalid pass pipeline: unknown pass ${id}`)
+    })
+
+    // Opt-in passes hold their place in the default pipeline until enabled
+    const passes = selection.passes ?? (profile === DEFAULT_PIPELINE
+      ? pipeline.filter(id => this.optIn.indexOf(id) === -1 || enabled.indexOf(id) !== -1)
+      : pipeline)
+    this.validate(passes)
+
+    return passes.filter(id => disabled.indexOf(id) === -1)
+  }
+
+  /**
+   * Why a request's pass options can't be run - null when they can
+   */
+  selectionError(selection: { passes?: unknown; passProfile?: unknown; disablePasses?: unknown; enablePasses?: unknown }): string | null {
+    const isIdList = (value: unknown) => Array.isArray(value) && value.every(id => typeof id === 'string')
+    if (selection.passes !== undefined && !isIdList(selection.passes)) {
+      return 'Invalid passes. Use a list of pass ids.'
+    }
+    if (selection.disablePasses !== undefined && !isIdList(selection.disablePasses)) {
+      return 'Invalid disablePasses. Use a list of pass ids.'
+    }
+    if (selection.enablePasses !== undefined && !isIdList(selection.enablePasses)) {
+      return 'Invalid enablePasses. Use a list of pass ids.'
+    }
+    if (selection.passProfile !== undefined && typeof selection.passProfile !== 'string') {
+      return 'Invalid passProfile. Use the name of a pass pipeline.'
+    }
+
+    try {
+      this.resolve(selection as PassSelection)
+      return null
+    } catch (error) {
+      return (error as Error).message
+    }
+  }
+
+  /**
+   * Changes whenever passes or pipelines change - part of the result cache key
+   */
+  getVersion(): number {
+    return this.version
+  }
+
+  /**
+   * Check pass ids exist, appear once and keep Pass 0 first
+   */
+  private validate(passes: string[]) {
+    passes.forEach((id, index) => {
+      if (!this.isKnown(id)) {
+        throw new Error(`Invalid pass pipeline: unknown pass ${id}`)
+      }
+      if (passes.indexOf(id) !== index) {
+        throw new Error(`Invalid pass pipeline: ${id} appears twice`)
+      }
+      if (id === 'pass0' && index > 0) {
+        throw new Error('Invalid pass pipeline: pass0 works on the raw text and must run first')
+      }
+    })
+  }
+}
+
+export const passRegistry = new PassRegistry()
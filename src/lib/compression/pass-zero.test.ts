@@ -2,7 +2,8 @@
  * Comprehensive Test Suite for Pass 0 Question Prefix Removal
  */
 
-import { questionPrefixProcessor, QuestionPrefixProcessor } from './pass-zero'
+import { questionPrefixProcessor, QuestionPrefixProcessor, buildQuestionPrefixes } from './pass-zero'
+import type { CompressionPattern } from '../supabase'
 
 describe('Pass 0 Question Prefix Removal', () => {
   let processor: QuestionPrefixProcessor
@@ -330,4 +331,210 @@ describe('Pass 0 Question Prefix Removal', () => {
       expect(result.processed).toContain('algorithms')        // Could become "algo" in Pass 2
     })
   })
-})
\ No newline at end of file
+
+  describe('Database Prefixes', () => {
+    const row = (original: string, confidence: number): CompressionPattern => ({
+      original_text: original,
+      compressed_form: '?',
+      text_hash: `h-${original.replace(/ /g, '-')}`,
+      compression_type: 'prefix',
+      confidence_score: confidence,
+      usage_count: 0,
+      pass_priority: 0
+    })
+
+    test('should try longer prefixes first', () => {
+      const prefixes = buildQuestionPrefixes([row('can you', 0.85), row('can you please', 0.95), row('please', 0.75)])
+
+      expect(prefixes.map(prefix => prefix.name)).toEqual(['can_you_please', 'can_you', 'please'])
+      expect(prefixes.map(prefix => prefix.priority)).toEqual([1, 2, 3])
+    })
+
+    test('should only remove prefixes that are in the given list', () => {
+      const prefixes = buildQuestionPrefixes([row('hey team', 0.80)])
+
+      const result = processor.processText('Hey  team review the PR', prefixes)
+      expect(result.processed).toBe('review the PR?')
+      expect(result.prefixId).toBe('h-hey-team')
+      expect(result.prefixConfidence).toBe(0.80)
+
+      expect(processor.processText('Can you review the PR', prefixes).prefixRemoved).toBeNull()
+    })
+
+    test('should escape regex characters in prefix text', () => {
+      const prefixes = buildQuestionPrefixes([row('q+a', 0.80)])
+
+      expect(processor.processText('qqa explain it', prefixes).prefixRemoved).toBeNull()
+      expect(processor.processText('Q+A explain it', prefixes).processed).toBe('explain it?')
+    })
+
+    test('should fall back to the built-in prefixes only when no list is given', () => {
+      const result = processor.processText('Can you please explain React hooks?', undefined)
+
+      expect(result.processed).toBe('explain React hooks?')
+      expect(result.prefixId).toBe('pass0-can_you_please')
+      expect(processor.processText('Can you please explain React hooks?', []).prefixRemoved).toBeNull()
+    })
+  })
+  describe('Filler Removal', () => {
+    test('should remove trailing pleasantries', () => {
+      const result = processor.processText('Can you explain React hooks? Thanks in advance! Let me know if you have any questions.')
+
+      expect(result.processed).toBe('explain React hooks?')
+      expect(result.removals.map(removal => [removal.kind, removal.name])).toEqual([
+        ['prefix', 'can_you'],
+        ['pleasantry', 'thanks'],
+        ['pleasantry', 'let_me_know']
+      ])
+    })
+
+    test('should report offsets into the original text', () => {
+      const result = processor.processText('  Summarize this document. Thanks so much for your help!  ')
+
+      expect(result.processed).toBe('Summarize this document.')
+      expect(result.removals).toHaveLength(1)
+      const [removal] = result.removals
+      expect(result.original.slice(removal.start, removal.end)).toBe('Thanks so much for your help!')
+      expect(removal.text).toBe('Thanks so much for your help!')
+    })
+
+    test('should remove a hedge before the question prefix check', () => {
+      const result = processor.processText('Hi team, I was wondering if you could explain the cache layer')
+
+      expect(result.processed).toBe('explain the cache layer')
+      expect(result.removals.map(removal => removal.kind)).toEqual(['pleasantry', 'hedge'])
+      expect(result.prefixRemoved).toBeNull()
+      expect(result.questionMarkAdded).toBe(false)
+    })
+
+    test('should strip hedges and filler sentences in the middle of the text', () => {
+      const result = processor.processText('Review the PR. Quick question: does it need a migration?\n\nHope this makes sense.\n\nShip it after.')
+
+      expect(result.processed).toBe('Review the PR. does it need a migration?\n\nShip it after.')
+      expect(result.removals.map(removal => removal.name)).toEqual(['quick_question', 'hope_this_helps'])
+    })
+
+    test('should remove a sign-off with the name under it', () => {
+      const result = processor.processText('Please fix the login bug.\n\nBest regards,\nJane Doe')
+
+      expect(result.processed).toBe('fix the login bug.')
+      const signOff = result.removals.find(removal => removal.kind === 'sign_off')
+      expect(signOff?.text).toBe('Best regards,\nJane Doe')
+    })
+
+    test('should keep sign-off words that are part of a sentence', () => {
+      const result = processor.processText('Explain what best regards means in email etiquette')
+
+      expect(result.processed).toBe('Explain what best regards means in email etiquette')
+      expect(result.removals).toEqual([])
+    })
+
+    test('should keep a message that is nothing but filler', () => {
+      const result = processor.processText('Thanks!')
+
+      expect(result.processed).toBe('Thanks!')
+      expect(result.removals).toEqual([])
+      expect(result.compressionRatio).toBe(0)
+    })
+
+    test('should never remove filler inside code', () => {
+      const text = 'Fix this test:\n```\nexpect(reply).toBe("Thanks!")\nThanks in advance!\n```'
+      const result = processor.processText(text)
+
+      expect(result.processed).toBe(text)
+      expect(result.removals).toEqual([])
+    })
+  })
+  describe('Multi-Sentence Processing', () => {
+    test('should remove the prefix of every sentence', () => {
+      const result = processor.processText('Hi. Can you please explain closures? Could you also show an example')
+
+      expect(result.processed).toBe('explain closures? also show an example?')
+      expect(result.prefixRemoved).toBe('Can you please')
+      expect(result.questionMarkAdded).toBe(true)
+      expect(result.sentences.map(sentence => sentence.prefixRemoved)).toEqual([null, 'Can you please', 'Could you'])
+    })
+
+    test('should report a per-sentence breakdown', () => {
+      const result = processor.processText('Can you review the PR. It adds caching. Would you check the tests')
+      const [first, second, third] = result.sentences
+
+      expect(result.processed).toBe('review the PR. It adds caching. check the tests?')
+      expect(second).toMatchObject({ original: 'It adds caching.', processed: 'It adds caching.', prefixRemoved: null })
+      expect(third).toMatchObject({ processed: 'check the tests?', prefixId: 'pass0-would_you', questionMarkAdded: true })
+      expect(first.questionMarkAdded).toBe(false)
+      result.sentences.forEach(sentence => {
+        expect(result.original.slice(sentence.start, sentence.end)).toBe(sentence.original)
+        expect(result.processed.substr(sentence.processedStart, sentence.processed.length)).toBe(sentence.processed)
+      })
+    })
+
+    test('should keep prose wrapped over several lines in one sentence', () => {
+      const wrapped = processor.processText('Can you please explain how the\nauthentication system works')
+      expect(wrapped.sentences).toHaveLength(1)
+      expect(wrapped.processed).toBe('explain how the\nauthentication system works?')
+
+      const midSentence = processor.processText('When the release is out the team would\nplease like you to review it')
+      expect(midSentence.processed).toBe('When the release is out the team would\nplease like you to review it')
+      expect(midSentence.removals).toEqual([])
+    })
+
+    test('should end a sentence at a line break after punctuation, a blank line or a list item', () => {
+      expect(processor.processText('Can you explain closures\n\nCould you show an example').processed)
+        .toBe('explain closures?\n\nshow an example?')
+      expect(processor.processText('Fix the build.\nCan you check the tests').processed)
+        .toBe('Fix the build.\ncheck the tests?')
+      expect(processor.processText('- Can you fix the build\n- Could you check the tests').processed)
+        .toBe('- Can you fix the build\n- Could you check the tests')
+      expect(processor.processText('Can you fix the build\n- then the tests').sentences).toHaveLength(2)
+    })
+
+    test('should still find a sign-off under a line without punctuation', () => {
+      const result = processor.processText('Please fix the login bug\nCheers')
+
+      expect(result.processed).toBe('fix the login bug?')
+      expect(result.removals.map(removal => removal.kind)).toEqual(['prefix', 'sign_off'])
+    })
+
+    test('should keep a line ending in a colon with the lines after it', () => {
+      const result = processor.processText('Can you explain these steps:\n- build\n- deploy')
+
+      expect(result.sentences).toHaveLength(1)
+      expect(result.processed).toBe('explain these steps:\n- build\n- deploy?')
+    })
+
+    test('should mark dropped sentences', () => {
+      const result = processor.processText('Thanks in advance! Explain closures.')
+
+      expect(result.sentences[0]).toMatchObject({ processed: '', processedStart: -1 })
+      expect(result.sentences[1].processedStart).toBe(0)
+    })
+  })
+
+  describe('Languages', () => {
+    test('should remove Spanish prefixes and the opening question mark', () => {
+      const result = processor.processText('¿Puedes explicar las clausuras?', undefined, 'es')
+
+      expect(result.processed).toBe('explicar las clausuras?')
+      expect(result.prefixRemoved).toBe('¿Puedes')
+    })
+
+    test('should remove German prefixes and keep capitalized nouns', () => {
+      const result = processor.processText('Kannst du bitte Dateien umbenennen', undefined, 'de')
+
+      expect(result.processed).toBe('Dateien umbenennen?')
+      expect(result.prefixId).toBe('pass0-kannst_du_bitte')
+    })
+
+    test('should only use prefixes of the given language', () => {
+      expect(processor.processText('Can you explain closures', undefined, 'de').prefixRemoved).toBeNull()
+      expect(processor.processText('Bitte erkläre das', undefined, 'en').prefixRemoved).toBeNull()
+    })
+
+    test('should leave filler alone outside English', () => {
+      const result = processor.processText('Thanks in advance! Bitte erkläre das.\nBest regards,\nJürgen', undefined, 'de')
+
+      expect(result.removals.map(removal => removal.kind)).toEqual(['prefix'])
+    })
+  })
+})
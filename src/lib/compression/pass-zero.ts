@@ -1,13 +1,50 @@
 /**
- * Pass 0: Question Prefix Removal System
- * Removes redundant question prefixes and adds "?" for context preservation
+ * Pass 0: Question Prefix and Filler Removal System
+ * Removes redundant question prefixes and adds "?" for context preservation.
+ * Prefixes come from priority-0 rows in the compressions table; the built-in
+ * list below is only used when the database has none.
+ * Text is processed sentence by sentence: every sentence can lose a prefix and
+ * gain a "?", and pleasantries, hedges and sign-offs are stripped at sentence
+ * boundaries anywhere in the text. Every removal is reported with its offsets.
+ * Built-in prefixes exist for every supported language; filler lists are kept per
+ * language too, and so far only English has any.
  */
 
+import { findProtectedRegions, ProtectedRegion, LETTER_CHARS } from '../text-utils'
+import { Language, DEFAULT_LANGUAGE } from '../language'
+import type { CompressionPattern } from '../supabase'
+
+export type FillerKind = 'pleasantry' | 'hedge' | 'sign_off'
+
+export interface Pass0Removal {
+  kind: 'prefix' | FillerKind
+  name: string
+  text: string   // Removed text as written
+  start: number  // Offsets into Pass0Result.original
+  end: number
+}
+
 export interface Pass0Result {
   original: string
   processed: string
-  prefixRemoved: string | null
+  prefixRemoved: string | null     // First prefix removed (see sentences for the rest)
   compressionRatio: number
+  questionMarkAdded: boolean       // True when any sentence gained a "?"
+  prefixId: string | null          // Rule id of the removed prefix (text_hash for database prefixes)
+  prefixConfidence: number | null  // Confidence of the removed prefix rule
+  removals: Pass0Removal[]         // Prefixes and fillers removed, in text order
+  sentences: Pass0Sentence[]       // Per-sentence breakdown, in text order
+}
+
+export interface Pass0Sentence {
+  original: string
+  processed: string                // Empty when the whole sentence was filler
+  start: number                    // Offsets into Pass0Result.original
+  end: number
+  processedStart: number           // Offset into Pass0Result.processed (-1 when the sentence was dropped)
+  prefixRemoved: string | null
+  prefixId: string | null
+  prefixConfidence: number | null
   questionMarkAdded: boolean
 }
 
@@ -15,71 +52,204 @@ export interface QuestionPrefix {
   pattern: RegExp
   name: string
   priority: number
+  id?: string           // text_hash of the database row this prefix came from
+  confidence?: number
+}
+
+interface FillerPattern {
+  pattern: RegExp
+  name: string
+  kind: FillerKind
+}
+
+interface FillerSet {
+  sentences: FillerPattern[]  // Whole sentences removed wherever they stand
+  leadIns: FillerPattern[]    // Removed from the start of a sentence
+  signOff: RegExp | null      // Closing line removed at the very end
+}
+
+interface SentenceSpan {
+  start: number
+  end: number
+}
+
+// Upper- and lowercase Latin letters, accented ones included
+const UPPER = 'A-Z\\u00C0-\\u00D6\\u00D8-\\u00DE'
+const LOWER = 'a-z\\u00DF-\\u00F6\\u00F8-\\u00FF'
+
+// English sentences that carry no instruction - removed wherever they stand
+const FILLER_SENTENCES: FillerPattern[] = [
+  { pattern: /^(?:hi|hello|hey|good (?:morning|afternoon|evening))(?: there| team| all| everyone| guys)?[,.!]*$/i, name: 'greeting', kind: 'pleasantry' },
+  { pattern: /^(?:many )?(?:thanks|thank you)(?: (?:so|very) much| a lot| again)?(?: in advance)?(?: for (?:your|the|any) (?:help|time|assistance|support))?[.!]*$/i, name: 'thanks', kind: 'pleasantry' },
+  { pattern: /^(?:please )?(?:let me know|feel free to ask) if (?:you have any (?:other |more |further )?questions|you need (?:anything else|any(?: more| further)? (?:info|information|details|context|clarification))|(?:anything|something) (?:is unclear|isn't clear))[.!]*$/i, name: 'let_me_know', kind: 'pleasantry' },
+  { pattern: /^(?:i )?hope (?:this|that|it) (?:makes sense|helps|is clear)[.!]*$/i, name: 'hope_this_helps', kind: 'pleasantry' },
+  { pattern: /^(?:i )?hope (?:you(?:'re| are) (?:doing )?well|all is well|you(?:'re| are) having a (?:good|great|nice) (?:day|week))[.!]*$/i, name: 'hope_you_are_well', kind: 'pleasantry' },
+  { pattern: /^(?:any (?:help|assistance|advice|input)(?: (?:here|on this))? (?:would be|is|will be) (?:greatly |much |really |very much )?appreciated|i(?:'d| would| really)? appreciate (?:your|the|any) help)[.!]*$/i, name: 'help_appreciated', kind: 'pleasantry' }
+]
+
+// English lead-ins removed from the start of a sentence - the rest of the sentence stays
+const FILLER_LEAD_INS: FillerPattern[] = [
+  { pattern: /^(?:hi|hello|hey|good (?:morning|afternoon|evening))(?: there| team| all| everyone| guys)?,\s*/i, name: 'greeting', kind: 'pleasantry' },
+  { pattern: /^(?:i was|i am|i'm|i've been|just) wondering (?:if|whether)(?: you (?:could|can|would|might)(?: please)?)?\s+/i, name: 'wondering_if', kind: 'hedge' },
+  { pattern: /^(?:i was|i am|i'm) hoping (?:that )?you (?:could|can|would|might)(?: please)?\s+/i, name: 'hoping_you_could', kind: 'hedge' },
+  { pattern: /^sorry (?:to bother you|for the (?:trouble|bother))(?:,? but)?,?\s+/i, name: 'sorry_to_bother', kind: 'hedge' },
+  { pattern: /^if (?:you don't mind|it's not too much trouble|it is not too much trouble|possible),\s*/i, name: 'if_you_dont_mind', kind: 'hedge' },
+  { pattern: /^(?:just )?(?:a )?quick question\s*[:,-]\s*/i, name: 'quick_question', kind: 'hedge' }
+]
+
+// English closing lines - only removed at the very end, optionally followed by a name line
+const SIGN_OFF_PATTERN = /^(?:(?:best|kind|warm|warmest) regards|regards|cheers|sincerely|best wishes|all the best|best|thanks|thank you|many thanks)[,.!]*$/i
+const SIGNATURE_NAME_PATTERN = new RegExp(`^[${UPPER}][${LETTER_CHARS}0-9_'.-]*(?:\\s+[${UPPER}][${LETTER_CHARS}0-9_'.-]*){0,2}$`)
+
+// Filler is only removed in the language its patterns are written in
+const FILLERS: Record<Language, FillerSet> = {
+  en: { sentences: FILLER_SENTENCES, leadIns: FILLER_LEAD_INS, signOff: SIGN_OFF_PATTERN },
+  es: { sentences: [], leadIns: [], signOff: null },
+  de: { sentences: [], leadIns: [], signOff: null }
+}
+
+// Sentences end at terminal punctuation followed by whitespace, or at a line break that
+// ends a line of its own: after terminal punctuation, at a blank line, next to a list item
+// or before a closing sign-off - other breaks just wrap prose. A line ending in "," runs
+// on into the next line, one ending in ":" up to the next blank line
+const SENTENCE_BOUNDARY = /[.!?]+(?=\s|$)|\n/g
+const LINE_CONTINUATION = /[:,]\s*$/
+const BLANK_LINE_AHEAD = /^[ \t]*\n/
+const TERMINAL_LINE = /(?:^|[.!?]['")\]]*)\s*$/
+const LIST_ITEM = /^[ \t]*(?:[-*•]|\d+[.)])\s/
+
+/**
+ * Build prefix matchers from priority-0 compression rows
+ * Longer prefixes are tried first so "can you please" wins over "can you"
+ */
+export function buildQuestionPrefixes(patterns: CompressionPattern[]): QuestionPrefix[] {
+  return patterns
+    .filter(pattern => pattern.original_text && pattern.original_text.trim().length > 0)
+    .map(pattern => ({ pattern, words: pattern.original_text.trim().toLowerCase().split(/\s+/) }))
+    .sort((a, b) =>
+      b.words.length - a.words.length || (b.pattern.confidence_score ?? 0.7) - (a.pattern.confidence_score ?? 0.7)
+    )
+    .map(({ pattern, words }) => ({
+      pattern: new RegExp(`^${words.map(escapeRegExp).join('\\s+')}\\s+`, 'i'),
+      name: words.join('_'),
+      // Same tiers as the built-in list: 3+ words high, 2 medium, 1 low
+      priority: words.length >= 3 ? 1 : words.length === 2 ? 2 : 3,
+      id: pattern.text_hash,
+      confidence: pattern.confidence_score ?? 0.7
+    }))
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Check whether a range overlaps a protected region (regions are sorted and disjoint)
+ */
+function overlapsRegion(regions: ProtectedRegion[], start: number, end: number): boolean {
+  let low = 0
+  let high = regions.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (regions[mid].end <= start) low = mid + 1
+    else high = mid
+  }
+  return low < regions.length && regions[low].start < end
+}
+
+function countNewlines(text: string): number {
+  return text.split('\n').length - 1
 }
 
+// Proper noun shapes - a capitalized first word is left as written
+const PROPER_NOUN_PATTERNS = [
+  new RegExp(`^[${UPPER}][${LOWER}]+$`),         // Standard proper noun: "React", "Zürich" (and German nouns: "Datei")
+  new RegExp(`^[${UPPER}]{2,}$`),                // Acronyms: "API", "HTTP", "SQL"
+  new RegExp(`^[${UPPER}][${LOWER}]*[${UPPER}]`)  // CamelCase: "TypeScript", "GitHub"
+]
+
 export class QuestionPrefixProcessor {
-  private readonly questionPrefixes: QuestionPrefix[] = [
-    // High priority - most specific patterns first
-    { pattern: /^can you please\s+/i, name: 'can_you_please', priority: 1 },
-    { pattern: /^could you please\s+/i, name: 'could_you_please', priority: 1 },
-    { pattern: /^would you please\s+/i, name: 'would_you_please', priority: 1 },
-    { pattern: /^would it be possible to\s+/i, name: 'would_it_be_possible', priority: 1 },
-    { pattern: /^is it possible to\s+/i, name: 'is_it_possible', priority: 1 },
-    { pattern: /^i would like you to\s+/i, name: 'i_would_like_you_to', priority: 1 },
-    { pattern: /^i need you to\s+/i, name: 'i_need_you_to', priority: 1 },
-
-    // Medium priority - shorter variations
-    { pattern: /^can you\s+/i, name: 'can_you', priority: 2 },
-    { pattern: /^could you\s+/i, name: 'could_you', priority: 2 },
-    { pattern: /^would you\s+/i, name: 'would_you', priority: 2 },
-    { pattern: /^will you\s+/i, name: 'will_you', priority: 2 },
-
-    // Lower priority - simple patterns
-    { pattern: /^please\s+/i, name: 'please', priority: 3 }
-  ]
-
-  /**
-   * Process text through Pass 0 question prefix removal
-   */
-  processText(text: string): Pass0Result {
+  private readonly questionPrefixes: Record<Language, QuestionPrefix[]> = {
+    en: [
+      // High priority - most specific patterns first
+      { pattern: /^can you please\s+/i, name: 'can_you_please', priority: 1 },
+      { pattern: /^could you please\s+/i, name: 'could_you_please', priority: 1 },
+      { pattern: /^would you please\s+/i, name: 'would_you_please', priority: 1 },
+      { pattern: /^would it be possible to\s+/i, name: 'would_it_be_possible', priority: 1 },
+      { pattern: /^is it possible to\s+/i, name: 'is_it_possible', priority: 1 },
+      { pattern: /^i would like you to\s+/i, name: 'i_would_like_you_to', priority: 1 },
+      { pattern: /^i need you to\s+/i, name: 'i_need_you_to', priority: 1 },
+
+      // Medium priority - shorter variations
+      { pattern: /^can you\s+/i, name: 'can_you', priority: 2 },
+      { pattern: /^could you\s+/i, name: 'could_you', priority: 2 },
+      { pattern: /^would you\s+/i, name: 'would_you', priority: 2 },
+      { pattern: /^will you\s+/i, name: 'will_you', priority: 2 },
+
+      // Lower priority - simple patterns
+      { pattern: /^please\s+/i, name: 'please', priority: 3 }
+    ],
+    es: [
+      { pattern: /^¿?(?:me )?puedes por favor\s+/i, name: 'puedes_por_favor', priority: 1 },
+      { pattern: /^¿?(?:me )?podrías por favor\s+/i, name: 'podrias_por_favor', priority: 1 },
+      { pattern: /^¿?(?:me )?podría por favor\s+/i, name: 'podria_por_favor', priority: 1 },
+      { pattern: /^¿?sería posible\s+/i, name: 'seria_posible', priority: 1 },
+      { pattern: /^¿?es posible\s+/i, name: 'es_posible', priority: 1 },
+      { pattern: /^¿?(?:me )?puedes\s+/i, name: 'puedes', priority: 2 },
+      { pattern: /^¿?(?:me )?podrías\s+/i, name: 'podrias', priority: 2 },
+      { pattern: /^¿?(?:me )?podría\s+/i, name: 'podria', priority: 2 },
+      { pattern: /^por favor,?\s+/i, name: 'por_favor', priority: 3 }
+    ],
+    de: [
+      { pattern: /^kannst du bitte\s+/i, name: 'kannst_du_bitte', priority: 1 },
+      { pattern: /^könntest du bitte\s+/i, name: 'koenntest_du_bitte', priority: 1 },
+      { pattern: /^können sie bitte\s+/i, name: 'koennen_sie_bitte', priority: 1 },
+      { pattern: /^könnten sie bitte\s+/i, name: 'koennten_sie_bitte', priority: 1 },
+      { pattern: /^wäre es möglich,?\s+/i, name: 'waere_es_moeglich', priority: 1 },
+      { pattern: /^kannst du\s+/i, name: 'kannst_du', priority: 2 },
+      { pattern: /^könntest du\s+/i, name: 'koenntest_du', priority: 2 },
+      { pattern: /^können sie\s+/i, name: 'koennen_sie', priority: 2 },
+      { pattern: /^könnten sie\s+/i, name: 'koennten_sie', priority: 2 },
+      { pattern: /^bitte,?\s+/i, name: 'bitte', priority: 3 }
+    ]
+  }
+
+  /**
+   * Process text through Pass 0 prefix and filler removal, one sentence at a time
+   * `prefixes` overrides the built-in list for `language` (the engine passes database prefixes, an
+   * empty list when none is trusted enough for the confidence mode)
+   */
+  processText(text: string, prefixes?: QuestionPrefix[], language: Language = DEFAULT_LANGUAGE): Pass0Result {
     if (!text || text.trim().length === 0) {
-      return {
-        original: text,
-        processed: text,
-        prefixRemoved: null,
-        compressionRatio: 0,
-        questionMarkAdded: false
-      }
+      return this.unchangedResult(text, [])
     }
 
     const originalText = text.trim()
-    let processedText = originalText
-    let prefixRemoved: string | null = null
-    let questionMarkAdded = false
+    const regions = findProtectedRegions(originalText)
+    const fillers = FILLERS[language]
+    const spans = this.sentenceSpans(originalText, regions, fillers.signOff)
+    const removals: Pass0Removal[] = []
+    const activePrefixes = this.activePrefixes(prefixes, language)
 
-    // Step 1: Find and remove question prefix
-    for (const prefix of this.questionPrefixes) {
-      const match = processedText.match(prefix.pattern)
-      if (match) {
-        prefixRemoved = match[0].trim()
-        processedText = processedText.replace(prefix.pattern, '').trim()
-
-        // Step 2: Normalize first letter (make lowercase unless it's a proper noun)
-        if (processedText.length > 0) {
-          const firstChar = processedText[0]
-          // Only lowercase if it's not already part of a likely proper noun
-          if (firstChar === firstChar.toUpperCase() && !this.isLikelyProperNoun(processedText)) {
-            processedText = firstChar.toLowerCase() + processedText.slice(1)
-          }
-        }
-        break
+    // Step 1: Strip a trailing sign-off (and the name line under it)
+    const signOff = fillers.signOff ? this.findSignOff(originalText, spans, regions, fillers.signOff) : null
+
+    // Step 2: Strip filler, then the question prefix of every sentence that is left
+    let sentences = spans.map(span => {
+      if (signOff && span.start >= signOff.start) {
+        return this.droppedSentence(originalText, span)
       }
-    }
+      return this.processSentence(originalText, span, regions, activePrefixes, fillers, removals)
+    })
+    if (signOff) removals.push(signOff)
+
+    let processedText = this.joinSentences(originalText, spans, sentences)
 
-    // Step 3: Add question mark if missing and this was clearly a question
-    if (prefixRemoved && !processedText.endsWith('?') && !processedText.endsWith('.')) {
-      processedText += '?'
-      questionMarkAdded = true
+    // Never strip a message down to nothing - a bare "Thanks!" is the whole request
+    if (processedText.length === 0) {
+      sentences = spans.map(span => this.unchangedSentence(originalText, span))
+      processedText = this.joinSentences(originalText, spans, sentences)
+      removals.length = 0
     }
 
     // Calculate compression ratio
@@ -87,36 +257,313 @@ export class QuestionPrefixProcessor {
       ? Math.round(((originalText.length - processedText.length) / originalText.length) * 100)
       : 0
 
+    const firstPrefix = sentences.find(sentence => sentence.prefixRemoved !== null)
     return {
       original: originalText,
       processed: processedText,
-      prefixRemoved,
+      prefixRemoved: firstPrefix ? firstPrefix.prefixRemoved : null,
       compressionRatio,
+      questionMarkAdded: sentences.some(sentence => sentence.questionMarkAdded),
+      prefixId: firstPrefix ? firstPrefix.prefixId : null,
+      prefixConfidence: firstPrefix ? firstPrefix.prefixConfidence : null,
+      removals: removals.sort((a, b) => a.start - b.start),
+      sentences
+    }
+  }
+
+  /**
+   * Pass 0 result for text left as written - for pipelines that leave Pass 0 out
+   */
+  passThrough(text: string, language: Language = DEFAULT_LANGUAGE): Pass0Result {
+    if (!text || text.trim().length === 0) {
+      return this.unchangedResult(text, [])
+    }
+
+    const originalText = text.trim()
+    const spans = this.sentenceSpans(originalText, findProtectedRegions(originalText), FILLERS[language].signOff)
+    const sentences = spans.map(span => this.unchangedSentence(originalText, span))
+    this.joinSentences(originalText, spans, sentences)
+    return this.unchangedResult(originalText, sentences)
+  }
+
+  /**
+   * Result with nothing removed
+   */
+  private unchangedResult(text: string, sentences: Pass0Sentence[]): Pass0Result {
+    return {
+      original: text,
+      processed: text,
+      prefixRemoved: null,
+      compressionRatio: 0,
+      questionMarkAdded: false,
+      prefixId: null,
+      prefixConfidence: null,
+      removals: [],
+      sentences
+    }
+  }
+
+  /**
+   * Run one sentence through filler, lead-in and question prefix removal
+   */
+  private processSentence(
+    text: string,
+    span: SentenceSpan,
+    regions: ProtectedRegion[],
+    prefixes: QuestionPrefix[],
+    fillers: FillerSet,
+    removals: Pass0Removal[]
+  ): Pass0Sentence {
+    const sentence = text.slice(span.start, span.end)
+    const filler = overlapsRegion(regions, span.start, span.end)
+      ? undefined
+      : fillers.sentences.find(candidate => candidate.pattern.test(sentence))
+    if (filler) {
+      removals.push({ kind: filler.kind, name: filler.name, text: sentence, start: span.start, end: span.end })
+      return this.droppedSentence(text, span)
+    }
+
+    let cursor = this.stripLeadIns(text, span, regions, fillers.leadIns, removals)
+    let matchedPrefix: QuestionPrefix | null = null
+    let prefixRemoved: string | null = null
+
+    // Find and remove question prefix
+    for (const prefix of prefixes) {
+      const match = text.slice(cursor, span.end).match(prefix.pattern)
+      if (match) {
+        const prefixText = match[0].trim()
+        if (!overlapsRegion(regions, cursor, cursor + prefixText.length)) {
+          removals.push({ kind: 'prefix', name: prefix.name, text: prefixText, start: cursor, end: cursor + prefixText.length })
+          matchedPrefix = prefix
+          prefixRemoved = prefixText
+          cursor += match[0].length
+        }
+        break
+      }
+    }
+
+    let processed = text.slice(cursor, span.end)
+    let questionMarkAdded = false
+
+    if (prefixRemoved) {
+      // Normalize first letter (make lowercase unless it's a proper noun)
+      // Code, URLs and paths are never re-cased
+      if (processed.length > 0 && !overlapsRegion(regions, cursor, cursor + 1)) {
+        const firstChar = processed[0]
+        // Only lowercase if it's not already part of a likely proper noun
+        if (firstChar === firstChar.toUpperCase() && !this.isLikelyProperNoun(processed)) {
+          processed = firstChar.toLowerCase() + processed.slice(1)
+        }
+      }
+
+      // Add question mark if missing and this was clearly a question
+      if (!/[.?!]$/.test(processed) && !overlapsRegion(regions, span.end - 1, span.end)) {
+        processed += '?'
+        questionMarkAdded = true
+      }
+    }
+
+    return {
+      original: sentence,
+      processed,
+      start: span.start,
+      end: span.end,
+      processedStart: -1,
+      prefixRemoved,
+      prefixId: matchedPrefix ? (matchedPrefix.id ?? `pass0-${matchedPrefix.name}`) : null,
+      prefixConfidence: matchedPrefix ? (matchedPrefix.confidence ?? 0.95) : null,
       questionMarkAdded
     }
   }
 
+  /**
+   * Breakdown entry for a sentence removed as filler
+   */
+  private droppedSentence(text: string, span: SentenceSpan): Pass0Sentence {
+    return { ...this.unchangedSentence(text, span), processed: '' }
+  }
+
+  /**
+   * Breakdown entry for a sentence left as written
+   */
+  private unchangedSentence(text: string, span: SentenceSpan): Pass0Sentence {
+    const sentence = text.slice(span.start, span.end)
+    return {
+      original: sentence,
+      processed: sentence,
+      start: span.start,
+      end: span.end,
+      processedStart: -1,
+      prefixRemoved: null,
+      prefixId: null,
+      prefixConfidence: null,
+      questionMarkAdded: false
+    }
+  }
+
+  /**
+   * Join processed sentences with the whitespace that separated them
+   * Where a dropped sentence leaves two whitespace runs, the one with more line breaks is kept
+   */
+  private joinSentences(text: string, spans: SentenceSpan[], sentences: Pass0Sentence[]): string {
+    let result = ''
+    let gap = ''
+
+    sentences.forEach((sentence, index) => {
+      const whitespace = text.slice(index === 0 ? 0 : spans[index - 1].end, spans[index].start)
+      if (gap.length === 0 || countNewlines(whitespace) > countNewlines(gap)) {
+        gap = whitespace
+      }
+      if (sentence.processed.length === 0) return
+
+      if (result.length > 0) result += gap
+      sentence.processedStart = result.length
+      result += sentence.processed
+      gap = ''
+    })
+
+    return result
+  }
+
+  /**
+   * Split text into trimmed sentence spans
+   * Code, URLs and JSON never end a sentence, and neither does a line break next to them
+   */
+  private sentenceSpans(text: string, regions: ProtectedRegion[], signOff: RegExp | null): SentenceSpan[] {
+    const spans: SentenceSpan[] = []
+    const boundary = new RegExp(SENTENCE_BOUNDARY.source, 'g')
+    let start = 0
+    let introducesBlock = false  // Inside the lines after a "...:" line
+    const signOffBreak = signOff ? this.signOffBreak(text, signOff) : -1
+    let match: RegExpExecArray | null
+
+    const pushSpan = (from: number, to: number) => {
+      while (from < to && /\s/.test(text[from])) from++
+      while (to > from && /\s/.test(text[to - 1])) to--
+      if (to > from) spans.push({ start: from, end: to })
+    }
+
+    while ((match = boundary.exec(text)) !== null) {
+      const isLineBreak = match[0] === '\n'
+      const end = match.index + match[0].length
+      if (isLineBreak) {
+        const line = text.slice(text.lastIndexOf('\n', match.index - 1) + 1, match.index)
+        const rest = text.slice(end)
+        const blankLineAhead = BLANK_LINE_AHEAD.test(rest)
+        if (/:\s*$/.test(line)) introducesBlock = true
+        if (blankLineAhead) introducesBlock = false
+
+        if (introducesBlock || LINE_CONTINUATION.test(line) || overlapsRegion(regions, match.index - 1, end + 1)) {
+          continue
+        }
+        const endsLine = blankLineAhead || TERMINAL_LINE.test(line) || LIST_ITEM.test(line) || LIST_ITEM.test(rest) ||
+          match.index === signOffBreak
+        if (!endsLine) continue
+      } else if (overlapsRegion(regions, match.index, end)) {
+        continue
+      }
+
+      pushSpan(start, isLineBreak ? match.index : end)
+      start = end
+    }
+    pushSpan(start, text.length)
+
+    return spans
+  }
+
+  /**
+   * Offset of the line break before a closing sign-off line ("Cheers", or "Best regards,"
+   * over a name line) - -1 when the text doesn't close with one
+   */
+  private signOffBreak(text: string, signOff: RegExp): number {
+    const lastBreak = text.lastIndexOf('\n')
+    if (lastBreak === -1) return -1
+    const lastLine = text.slice(lastBreak + 1).trim()
+    if (signOff.test(lastLine)) return lastBreak
+    if (!SIGNATURE_NAME_PATTERN.test(lastLine)) return -1
+
+    const previousBreak = text.lastIndexOf('\n', lastBreak - 1)
+    return previousBreak !== -1 && signOff.test(text.slice(previousBreak + 1, lastBreak).trim()) ? previousBreak : -1
+  }
+
+  /**
+   * Find a sign-off closing the text - on its own line, optionally followed by a name line
+   */
+  private findSignOff(text: string, spans: SentenceSpan[], regions: ProtectedRegion[], signOff: RegExp): Pass0Removal | null {
+    if (spans.length < 2) return null
+
+    const spanText = (span: SentenceSpan) => text.slice(span.start, span.end)
+    const onOwnLine = (span: SentenceSpan, before: SentenceSpan) => text.slice(before.end, span.start).indexOf('\n') !== -1
+    const last = spans[spans.length - 1]
+    const previous = spans[spans.length - 2]
+    const lastLines = spanText(last).split(/\s*\n\s*/)
+
+    let start: number | null = null
+    if (signOff.test(lastLines[0]) && lastLines.length <= 2 &&
+        (lastLines.length === 1 || SIGNATURE_NAME_PATTERN.test(lastLines[1])) && onOwnLine(last, previous)) {
+      // "Cheers" or "Best regards,\nJane Doe"
+      start = last.start
+    } else if (spans.length >= 3 && SIGNATURE_NAME_PATTERN.test(spanText(last)) && signOff.test(spanText(previous)) &&
+        onOwnLine(last, previous) && onOwnLine(previous, spans[spans.length - 3])) {
+      // "Thanks\nJane" - no comma, so the name line is its own span
+      start = previous.start
+    }
+
+    if (start === null || overlapsRegion(regions, start, last.end)) return null
+    return { kind: 'sign_off', name: 'sign_off', text: text.slice(start, last.end), start, end: last.end }
+  }
+
+  /**
+   * Remove greeting and hedge lead-ins from the start of a sentence
+   * Returns the position where the rest of the sentence starts
+   */
+  private stripLeadIns(
+    text: string,
+    span: SentenceSpan,
+    regions: ProtectedRegion[],
+    leadIns: FillerPattern[],
+    removals: Pass0Removal[]
+  ): number {
+    let cursor = span.start
+
+    let leadIn: FillerPattern | undefined
+    do {
+      const rest = text.slice(cursor, span.end)
+      leadIn = leadIns.find(candidate => candidate.pattern.test(rest))
+      if (!leadIn) break
+
+      const match = rest.match(leadIn.pattern) as RegExpMatchArray
+      const leadInText = match[0].trim()
+      // Keep the lead-in when nothing would follow it or it runs into code
+      if (match[0].length >= rest.length || overlapsRegion(regions, cursor, cursor + leadInText.length)) break
+
+      removals.push({ kind: leadIn.kind, name: leadIn.name, text: leadInText, start: cursor, end: cursor + leadInText.length })
+      cursor += match[0].length
+    } while (leadIn)
+
+    return cursor
+  }
+
+  /**
+   * Prefixes to match - the given list (even an empty one), or the language's built-in one when there is none
+   */
+  private activePrefixes(prefixes: QuestionPrefix[] | undefined, language: Language): QuestionPrefix[] {
+    return prefixes ?? this.questionPrefixes[language]
+  }
+
   /**
    * Check if the text starts with a likely proper noun
    */
   private isLikelyProperNoun(text: string): boolean {
     const firstWord = text.split(' ')[0]
-
-    // Common proper noun patterns
-    const properNounPatterns = [
-      /^[A-Z][a-z]+$/,  // Standard proper noun: "React", "JavaScript"
-      /^[A-Z]{2,}$/,     // Acronyms: "API", "HTTP", "SQL"
-      /^[A-Z][a-z]*[A-Z]/,  // CamelCase: "TypeScript", "GitHub"
-    ]
-
-    return properNounPatterns.some(pattern => pattern.test(firstWord))
+    return PROPER_NOUN_PATTERNS.some(pattern => pattern.test(firstWord))
   }
 
   /**
    * Get statistics about prefix patterns
    */
-  getPatternStats(): Array<{ name: string; pattern: string; priority: number }> {
-    return this.questionPrefixes.map(prefix => ({
+  getPatternStats(language: Language = DEFAULT_LANGUAGE): Array<{ name: string; pattern: string; priority: number }> {
+    return this.questionPrefixes[language].map(prefix => ({
       name: prefix.name,
       pattern: prefix.pattern.source,
       priority: prefix.priority
@@ -126,17 +573,17 @@ export class QuestionPrefixProcessor {
   /**
    * Test if text contains a question prefix
    */
-  hasQuestionPrefix(text: string): boolean {
+  hasQuestionPrefix(text: string, language: Language = DEFAULT_LANGUAGE): boolean {
     const trimmed = text.trim()
-    return this.questionPrefixes.some(prefix => prefix.pattern.test(trimmed))
+    return this.questionPrefixes[language].some(prefix => prefix.pattern.test(trimmed))
   }
 
   /**
    * Get the prefix that would be removed (without actually removing it)
    */
-  getMatchingPrefix(text: string): string | null {
+  getMatchingPrefix(text: string, language: Language = DEFAULT_LANGUAGE): string | null {
     const trimmed = text.trim()
-    for (const prefix of this.questionPrefixes) {
+    for (const prefix of this.questionPrefixes[language]) {
       const match = trimmed.match(prefix.pattern)
       if (match) {
         return match[0].trim()
@@ -0,0 +1,158 @@
+/**
+ * Pattern Snapshot Cache
+ * Keeps one in-process copy of the compression rules so requests don't
+ * re-query Supabase for every compression. Snapshots are versioned and
+ * refreshed after a TTL or when a rule change invalidates them.
+ */
+
+import { db, CompressionPattern } from '../supabase'
+import { CONFIDENCE_THRESHOLDS } from '../confidence-thresholds'
+import { TEMPLATE_PASS_PRIORITY } from './template-rules'
+
+export interface PatternSnapshot {
+  version: number
+  loadedAt: number
+  pass0Patterns: CompressionPattern[]
+  phrasePatterns: CompressionPattern[]
+  wordPatterns: CompressionPattern[]
+  templatePatterns: CompressionPattern[]
+}
+
+export interface PatternSnapshotStats {
+  version: number
+  loadedAt: string | null
+  ageMs: number | null
+  ttlMs: number
+  stale: boolean
+  loads: number
+  invalidations: number
+  lastInvalidationReason: string | null
+  patternCounts: { pass0: number; phrase: number; word: number; template: number }
+}
+
+// Default snapshot lifetime - bounds staleness for changes made outside this process
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+
+export class PatternSnapshotCache {
+  private snapshot: PatternSnapshot | null = null
+  private pending: Promise<PatternSnapshot> | null = null
+  private invalidated = false
+  private version = 0
+  private loads = 0
+  private invalidations = 0
+  private lastInvalidationReason: string | null = null
+
+  constructor(private readonly ttlMs: number = DEFAULT_TTL_MS) {}
+
+  /**
+   * Get the current snapshot, loading it if missing, expired or invalidated
+   */
+  async get(): Promise<PatternSnapshot> {
+    if (this.snapshot && !this.isStale()) {
+      return this.snapshot
+    }
+
+    // Concurrent requests share a single reload
+    if (!this.pending) {
+      this.pending = this.load()
+    }
+    return this.pending
+  }
+
+  /**
+   * Mark the snapshot stale so the next request reloads rules
+   */
+  invalidate(reason: string = 'manual') {
+    this.invalidated = true
+    this.invalidations++
+    this.lastInvalidationReason = reason
+    console.log(`♻️ Pattern snapshot v${this.version} invalidated: ${reason}`)
+  }
+
+  /**
+   * Version of the snapshot currently served (0 before the first load)
+   */
+  getVersion(): number {
+    return this.version
+  }
+
+  /**
+   * Get snapshot statistics for admin endpoints
+   */
+  getStats(): PatternSnapshotStats {
+    const now = Date.now()
+    return {
+      version: this.version,
+      loadedAt: this.snapshot ? new Date(this.snapshot.loadedAt).toISOString() : null,
+      ageMs: this.snapshot ? now - this.snapshot.loadedAt : null,
+      ttlMs: this.ttlMs,
+      stale: this.isStale(),
+      loads: this.loads,
+      invalidations: this.invalidations,
+      lastInvalidationReason: this.lastInvalidationReason,
+      patternCounts: {
+        pass0: this.snapshot?.pass0Patterns.length ?? 0,
+        phrase: this.snapshot?.phrasePatterns.length ?? 0,
+        word: this.snapshot?.wordPatterns.length ?? 0,
+        template: this.snapshot?.templatePatterns.length ?? 0
+      }
+    }
+  }
+
+  /**
+   * Check whether the snapshot needs a reload
+   */
+  private isStale(): boolean {
+    if (!this.snapshot || this.invalidated) return true
+    return Date.now() - this.snapshot.loadedAt > this.ttlMs
+  }
+
+  /**
+   * Load compression patterns from database by priority
+   */
+  private async load(): Promise<PatternSnapshot> {
+    try {
+      // Invalidations that arrive during the load apply to the next one
+      this.invalidated = false
+
+      // Load down to the aggressive floor - each confidence mode filters in memory
+      // Pass 0 rows load whatever their confidence: disabled prefixes must not bring back the built-in list
+      const minConfidence = CONFIDENCE_THRESHOLDS.AGGRESSIVE
+      const [pass0Patterns, phrasePatterns, wordPatterns, templatePatterns] = await Promise.all([
+        db.getPatternsByPriority(0, 0),
+        db.getPatternsByPriority(1, minConfidence),
+        db.getPatternsByPriority(2, minConfidence),
+        db.getPatternsByPriority(TEMPLATE_PASS_PRIORITY, minConfidence)
+      ])
+
+      this.version++
+      this.loads++
+      this.snapshot = {
+        version: this.version,
+        loadedAt: Date.now(),
+        pass0Patterns,
+        phrasePatterns,
+        wordPatterns,
+        templatePatterns
+      }
+
+      console.log(`Loaded pattern snapshot v${this.version}: ${pass0Patterns.length} Pass 0 patterns, ${phrasePatterns.length} phrase patterns, ${wordPatterns.length} word patterns, ${templatePatterns.length} template patterns`)
+      return this.snapshot
+    } catch (error) {
+      console.error('Failed to load patterns:', error)
+
+      // A stale snapshot beats failing every request while the database is down
+      if (this.snapshot) {
+        console.warn(`⚠️ Serving stale pattern snapshot v${this.version}`)
+        this.invalidated = true
+        return this.snapshot
+      }
+      throw new Error('Database connection failed')
+    } finally {
+      this.pending = null
+    }
+  }
+}
+
+// Export singleton instance
+export const patternSnapshotCache = new PatternSnapshotCache()
@@ -0,0 +1,91 @@
+/**
+ * Test Suite for the Token Trie Phrase Matcher
+ */
+
+import { PhraseMatcher } from './phrase-matcher'
+import { CompressionPattern } from '../supabase'
+
+function pattern(original: string, compressed: string, wordCount?: number): CompressionPattern {
+  return {
+    original_text: original,
+    compressed_form: compressed,
+    text_hash: original,
+    compression_type: 'phrase',
+    usage_count: 0,
+    word_count: wordCount ?? original.split(' ').length
+  }
+}
+
+describe('PhraseMatcher', () => {
+  const patterns = [
+    pattern('as soon as possible', 'ASAP'),
+    pattern('as soon as', 'asa'),
+    pattern('By The Way', 'BTW'),
+    pattern('machine learning', 'ML', 3), // word_count disagrees with text
+    pattern('explain', 'xpln')
+  ]
+
+  test('should match exact windows case-insensitively', () => {
+    const matcher = new PhraseMatcher(patterns)
+    const words = ['so', 'by', 'THE', 'way', 'then']
+
+    expect(matcher.match(words, 1, 3)?.compressed_form).toBe('BTW')
+    expect(matcher.match(words, 1, 2)).toBeUndefined()
+    expect(matcher.match(words, 3, 3)).toBeUndefined()
+  })
+
+  test('should find the longest match from a position', () => {
+    const matcher = new PhraseMatcher(patterns)
+    const words = 'reply as soon as possible please'.split(' ')
+
+    const result = matcher.longestMatch(words, 1)
+    expect(result?.pattern.compressed_form).toBe('ASAP')
+    expect(result?.length).toBe(4)
+
+    expect(matcher.longestMatch(words, 1, 3)?.pattern.compressed_form).toBe('asa')
+    expect(matcher.longestMatch(words, 0)).toBeNull()
+  })
+
+  test('should list every match from a position, shortest first', () => {
+    const matcher = new PhraseMatcher(patterns)
+    const words = 'reply as soon as possible please'.split(' ')
+
+    expect(matcher.matchesAt(words, 1).map(match => match.pattern.compressed_form)).toEqual(['asa', 'ASAP'])
+    expect(matcher.matchesAt(words, 1, 3).map(match => match.length)).toEqual([3])
+    expect(matcher.matchesAt(words, 0)).toEqual([])
+  })
+
+  test('should skip patterns with mismatched word_count when required', () => {
+    const strict = new PhraseMatcher(patterns, { requireWordCount: true })
+    const lenient = new PhraseMatcher(patterns)
+    const words = ['machine', 'learning']
+
+    expect(strict.match(words, 0, 2)).toBeUndefined()
+    expect(lenient.match(words, 0, 2)?.compressed_form).toBe('ML')
+  })
+
+  test('should keep the first pattern registered for a phrase', () => {
+    const matcher = new PhraseMatcher([pattern('explain', 'xpln'), pattern('Explain', 'expl')])
+
+    expect(matcher.size).toBe(1)
+    expect(matcher.match(['explain'], 0, 1)?.compressed_form).toBe('xpln')
+  })
+
+  test('should stay fast with large rule sets', () => {
+    const large: CompressionPattern[] = []
+    for (let i = 0; i < 50000; i++) {
+      large.push(pattern(`term${i} variant${i % 7}`, `t${i}`))
+    }
+    const matcher = new PhraseMatcher(large)
+    const words = Array.from({ length: 2000 }, (_, i) => (i % 2 === 0 ? `term${i}` : `variant${(i - 1) % 7}`))
+
+    const start = Date.now()
+    let hits = 0
+    for (let i = 0; i < words.length; i++) {
+      if (matcher.longestMatch(words, i)) hits++
+    }
+
+    expect(hits).toBe(1000)
+    expect(Date.now() - start).toBeLessThan(100)
+  })
+})
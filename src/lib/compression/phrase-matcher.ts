@@ -0,0 +1,119 @@
+/**
+ * Token Trie Phrase Matcher
+ * Indexes compression patterns by lowercased words so Pass 1 and Pass 2
+ * lookups cost O(window size) instead of O(patterns)
+ */
+
+import { CompressionPattern } from '../supabase'
+
+interface TrieNode {
+  children: Map<string, TrieNode>
+  pattern?: CompressionPattern
+}
+
+export interface PhraseMatcherOptions {
+  // Only index patterns whose word_count agrees with their text (Pass 1 behaviour)
+  requireWordCount?: boolean
+}
+
+export class PhraseMatcher {
+  private readonly root: TrieNode = { children: new Map() }
+  private patternCount = 0
+  private deepest = 0
+
+  constructor(patterns: CompressionPattern[], options: PhraseMatcherOptions = {}) {
+    for (const pattern of patterns) {
+      this.insert(pattern, options)
+    }
+  }
+
+  /**
+   * Add a pattern to the trie, keyed on its lowercased words
+   */
+  private insert(pattern: CompressionPattern, options: PhraseMatcherOptions) {
+    const words = pattern.original_text.toLowerCase().trim().split(/\s+/).filter(word => word.length > 0)
+    if (words.length === 0) return
+    if (options.requireWordCount && pattern.word_count !== words.length) return
+
+    let node = this.root
+    for (const word of words) {
+      let child = node.children.get(word)
+      if (!child) {
+        child = { children: new Map() }
+        node.children.set(word, child)
+      }
+      node = child
+    }
+
+    // Patterns arrive ordered by usage - the first one for a phrase wins
+    if (!node.pattern) {
+      node.pattern = pattern
+      this.patternCount++
+      this.deepest = Math.max(this.deepest, words.length)
+    }
+  }
+
+  /**
+   * Find the pattern for exactly `length` words starting at `start`
+   */
+  match(words: string[], start: number, length: number): CompressionPattern | undefined {
+    if (length > this.deepest || start + length > words.length) return undefined
+
+    let node: TrieNode | undefined = this.root
+    for (let i = start; i < start + length; i++) {
+      node = node.children.get(words[i].toLowerCase().trim())
+      if (!node) return undefined
+    }
+    return node.pattern
+  }
+
+  /**
+   * Find the longest pattern starting at `start`, up to `maxLength` words
+   */
+  longestMatch(words: string[], start: number, maxLength: number = this.deepest): { pattern: CompressionPattern; length: number } | null {
+    let node: TrieNode | undefined = this.root
+    let best: { pattern: CompressionPattern; length: number } | null = null
+    const end = Math.min(words.length, start + maxLength)
+
+    for (let i = start; i < end; i++) {
+      node = node.children.get(words[i].toLowerCase().trim())
+      if (!node) break
+      if (node.pattern) {
+        best = { pattern: node.pattern, length: i - start + 1 }
+      }
+    }
+    return best
+  }
+
+  /**
+   * Find every pattern starting at `start`, shortest first, up to `maxLength` words
+   */
+  matchesAt(words: string[], start: number, maxLength: number = this.deepest): { pattern: CompressionPattern; length: number }[] {
+    let node: TrieNode | undefined = this.root
+    const matches: { pattern: CompressionPattern; length: number }[] = []
+    const end = Math.min(words.length, start + maxLength)
+
+    for (let i = start; i < end; i++) {
+      node = node.children.get(words[i].toLowerCase().trim())
+      if (!node) break
+      if (node.pattern) {
+        matches.push({ pattern: node.pattern, length: i - start + 1 })
+      }
+    }
+    return matches
+  }
+
+  /**
+   * Number of indexed patterns
+   */
+  get size(): number {
+    return this.patternCount
+  }
+
+  /**
+   * Word count of the longest indexed pattern
+   */
+  get maxWords(): number {
+    return this.deepest
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Test Suite for the Bounded LRU Result Cache
+ */
+
+import { LRUCache } from './result-cache'
+
+describe('LRUCache', () => {
+  test('should evict the least recently used entry when full', () => {
+    const cache = new LRUCache<string>({ maxEntries: 2, ttlMs: 60000 })
+
+    cache.set('a', 'A')
+    cache.set('b', 'B')
+    cache.get('a') // "b" is now least recently used
+    cache.set('c', 'C')
+
+    expect(cache.get('a')).toBe('A')
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('c')).toBe('C')
+    expect(cache.size).toBe(2)
+    expect(cache.getStats().evictions).toBe(1)
+  })
+
+  test('should expire entries after the TTL', async () => {
+    const cache = new LRUCache<string>({ maxEntries: 10, ttlMs: 1 })
+
+    cache.set('a', 'A')
+    await new Promise(resolve => setTimeout(resolve, 5))
+
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.size).toBe(0)
+    expect(cache.getStats().expirations).toBe(1)
+  })
+
+  test('should track hits, misses and hit rate', () => {
+    const cache = new LRUCache<number>({ maxEntries: 10, ttlMs: 60000 })
+
+    cache.set('one', 1)
+    cache.get('one')
+    cache.get('one')
+    cache.get('two')
+
+    const stats = cache.getStats()
+    expect(stats.hits).toBe(2)
+    expect(stats.misses).toBe(1)
+    expect(stats.hitRate).toBe(67)
+  })
+
+  test('should keep counters when cleared', () => {
+    const cache = new LRUCache<number>({ maxEntries: 10, ttlMs: 60000 })
+
+    cache.set('one', 1)
+    cache.get('one')
+    cache.clear()
+
+    expect(cache.size).toBe(0)
+    expect(cache.getStats().hits).toBe(1)
+
+    cache.resetStats()
+    expect(cache.getStats().hits).toBe(0)
+  })
+})
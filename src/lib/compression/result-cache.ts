@@ -0,0 +1,116 @@
+/**
+ * Bounded LRU Cache with TTL
+ * Used for full-text compression results so a long-running server keeps a
+ * fixed memory footprint and never serves entries past their lifetime
+ */
+
+export interface LRUCacheOptions {
+  maxEntries: number
+  ttlMs: number
+}
+
+export interface LRUCacheStats {
+  size: number
+  maxEntries: number
+  ttlMs: number
+  hits: number
+  misses: number
+  evictions: number
+  expirations: number
+  hitRate: number // percentage of lookups served from cache
+}
+
+interface CacheEntry<V> {
+  value: V
+  expiresAt: number
+}
+
+export class LRUCache<V> {
+  // Map keeps insertion order - the first key is always the least recently used
+  private readonly entries = new Map<string, CacheEntry<V>>()
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+  private expirations = 0
+
+  constructor(private readonly options: LRUCacheOptions) {}
+
+  /**
+   * Look up a value, refreshing its recency
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      this.misses++
+      return undefined
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key)
+      this.expirations++
+      this.misses++
+      return undefined
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    this.hits++
+    return entry.value
+  }
+
+  /**
+   * Store a value, evicting the least recently used entry when full
+   */
+  set(key: string, value: V) {
+    if (this.options.maxEntries <= 0) return
+
+    this.entries.delete(key)
+    while (this.entries.size >= this.options.maxEntries) {
+      const oldest = this.entries.keys().next()
+      if (oldest.done) break
+      this.entries.delete(oldest.value)
+      this.evictions++
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + this.options.ttlMs })
+  }
+
+  /**
+   * Drop all entries (counters are kept so hit rate spans the process lifetime)
+   */
+  clear() {
+    this.entries.clear()
+  }
+
+  /**
+   * Reset hit/miss/eviction counters
+   */
+  resetStats() {
+    this.hits = 0
+    this.misses = 0
+    this.evictions = 0
+    this.expirations = 0
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): LRUCacheStats {
+    const lookups = this.hits + this.misses
+    return {
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlMs: this.options.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 100) : 0
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Test Suite for Rule Conditions - parsing and evaluation
+ */
+
+import { conditionsMet, parseRuleConditions, RuleConditions } from './rule-conditions'
+import { extractCleanWords } from '../text-utils'
+import { CompressionPattern } from '../supabase'
+
+const rule = (conditions?: RuleConditions | string): CompressionPattern => ({
+  original_text: 'for',
+  compressed_form: '4',
+  text_hash: 'h-for',
+  compression_type: 'word',
+  usage_count: 0,
+  context: typeof conditions === 'string' ? conditions : conditions && JSON.stringify(conditions)
+})
+
+// Check the rule at the first "for" in the text
+const firesIn = (pattern: CompressionPattern, text: string): boolean => {
+  const words = extractCleanWords(text)
+  return conditionsMet(pattern, words, words.findIndex(word => word.clean === 'for'), 1)
+}
+
+describe('Rule Conditions', () => {
+  describe('parseRuleConditions', () => {
+    test('should lowercase word lists', () => {
+      expect(parseRuleConditions({ notFollowedBy: ['Loop'], excludeContexts: ['For  Each'] })).toEqual({
+        notFollowedBy: ['loop'],
+        excludeContexts: ['for each']
+      })
+    })
+
+    test('should reject unknown conditions, positions and word classes', () => {
+      expect(() => parseRuleConditions({ after: ['x'] })).toThrow('unknown condition after')
+      expect(() => parseRuleConditions({ positions: ['first'] })).toThrow('positions can only hold')
+      expect(() => parseRuleConditions({ followedBy: ['#verb'] })).toThrow('word classes are')
+      expect(() => parseRuleConditions({ followedBy: ['for loop'] })).toThrow('holds single words')
+      expect(() => parseRuleConditions(['loop'])).toThrow('expected an object')
+    })
+  })
+
+  describe('conditionsMet', () => {
+    test('should fire everywhere without conditions or with a free-text note', () => {
+      expect(firesIn(rule(), 'a for loop')).toBe(true)
+      expect(firesIn(rule('informal chat only'), 'a for loop')).toBe(true)
+    })
+
+    test('should never fire when stored conditions are unreadable', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      expect(firesIn(rule('{"notFollowedBy": '), 'thanks for the help')).toBe(false)
+    })
+
+    test('should check the following word and word classes', () => {
+      const pattern = rule({ notFollowedBy: ['loop', '#number'] })
+
+      expect(firesIn(pattern, 'write a for loop')).toBe(false)
+      expect(firesIn(pattern, 'wait for 5 minutes')).toBe(false)
+      expect(firesIn(pattern, 'thanks for the help')).toBe(true)
+    })
+
+    test('should check the preceding word', () => {
+      expect(firesIn(rule({ precededBy: ['thanks'] }), 'thanks for the help')).toBe(true)
+      expect(firesIn(rule({ precededBy: ['thanks'] }), 'wait for me')).toBe(false)
+      expect(firesIn(rule({ notPrecededBy: ['#capitalized'] }), 'ask Anna for help')).toBe(false)
+    })
+
+    test('should check the sentence position', () => {
+      const pattern = rule({ positions: ['middle'] })
+
+      expect(firesIn(pattern, 'For now, wait.')).toBe(false)
+      expect(firesIn(pattern, 'Wait. For now, wait.')).toBe(false)
+      expect(firesIn(pattern, 'What is it for?')).toBe(false)
+      expect(firesIn(pattern, 'What is it for\nnothing')).toBe(false)
+      expect(firesIn(pattern, 'thanks for the help')).toBe(true)
+    })
+
+    test('should not read neighbors across sentences', () => {
+      expect(firesIn(rule({ notPrecededBy: ['loop'] }), 'A loop. For now, wait.')).toBe(true)
+    })
+
+    test('should leave excluded contexts alone', () => {
+      const pattern = rule({ excludeContexts: ['for each', 'what for'] })
+
+      expect(firesIn(pattern, 'run it for each item')).toBe(false)
+      expect(firesIn(pattern, 'but what for')).toBe(false)
+      expect(firesIn(pattern, 'run it for me')).toBe(true)
+    })
+  })
+})
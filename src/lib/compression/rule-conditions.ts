@@ -0,0 +1,153 @@
+/**
+ * Rule Conditions
+ * Optional conditions stored as JSON in a rule's `context` column. A rule with
+ * conditions only fires where its neighboring words and sentence position allow,
+ * so short aggressive rules ("for" → "4") can leave phrases like "for loop" alone.
+ */
+
+import type { CompressionPattern } from '../supabase'
+import { endsSentence, CleanWord } from '../text-utils'
+
+export type SentencePosition = 'start' | 'middle' | 'end'
+
+export interface RuleConditions {
+  precededBy?: string[]           // Fire only right after one of these words
+  notPrecededBy?: string[]        // Never fire right after one of these words
+  followedBy?: string[]           // Fire only right before one of these words
+  notFollowedBy?: string[]        // Never fire right before one of these words
+  positions?: SentencePosition[]  // Where in its sentence the match may sit
+  excludeContexts?: string[]      // Phrases around the match that must be left as written ("for loop")
+}
+
+// Word classes usable in the neighbor lists next to plain words
+export const WORD_CLASSES: Record<string, (word: CleanWord) => boolean> = {
+  '#number': word => /^\d+(?:[.,]\d+)*$/.test(word.clean),
+  '#capitalized': word => {
+    const first = word.original.replace(/^[("'\[{¿¡«„“‘‹]+/, '').charAt(0)
+    return word.clean.length > 0 && first !== first.toLowerCase()
+  }
+}
+
+const WORD_LIST_KEYS = ['precededBy', 'notPrecededBy', 'followedBy', 'notFollowedBy', 'excludeContexts']
+const POSITIONS: SentencePosition[] = ['start', 'middle', 'end']
+
+// Conditions that never hold - rules whose stored conditions can't be read stay off
+const NEVER: RuleConditions = { positions: [] }
+
+const parsedConditions = new WeakMap<CompressionPattern, RuleConditions | null>()
+
+/**
+ * Validate and normalize a conditions object - word lists are lowercased, unknown keys rejected
+ */
+export function parseRuleConditions(value: unknown): RuleConditions {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid rule conditions: expected an object')
+  }
+
+  const input = value as Record<string, unknown>
+  const conditions: RuleConditions = {}
+
+  Object.keys(input).forEach(key => {
+    const list = input[key]
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string' || item.trim().length === 0)) {
+      throw new Error(`Invalid rule conditions: ${key} must be a list of words`)
+    }
+
+    if (key === 'positions') {
+      if (list.some(item => POSITIONS.indexOf(item) === -1)) {
+        throw new Error(`Invalid rule conditions: positions can only hold ${POSITIONS.join(', ')}`)
+      }
+      conditions.positions = list as SentencePosition[]
+      return
+    }
+
+    if (WORD_LIST_KEYS.indexOf(key) === -1) {
+      throw new Error(`Invalid rule conditions: unknown condition ${key}`)
+    }
+    const words = (list as string[]).map(item => item.trim().toLowerCase().replace(/\s+/g, ' '))
+    if (key !== 'excludeContexts' && words.some(word => word.indexOf(' ') !== -1)) {
+      throw new Error(`Invalid rule conditions: ${key} holds single words`)
+    }
+    if (words.some(word => word[0] === '#' && !WORD_CLASSES[word])) {
+      throw new Error(`Invalid rule conditions: word classes are ${Object.keys(WORD_CLASSES).join(', ')}`)
+    }
+    (conditions as Record<string, string[]>)[key] = words
+  })
+
+  return conditions
+}
+
+/**
+ * Conditions stored on a rule, parsed once per pattern object
+ * A `context` that isn't a JSON object is a free-text note and adds no conditions
+ */
+export function ruleConditions(pattern: CompressionPattern): RuleConditions | null {
+  const cached = parsedConditions.get(pattern)
+  if (cached !== undefined) return cached
+
+  let conditions: RuleConditions | null = null
+  const context = pattern.context ? pattern.context.trim() : ''
+  if (context.charAt(0) === '{') {
+    try {
+      conditions = parseRuleConditions(JSON.parse(context))
+    } catch (error) {
+      console.warn(`⚠️ Ignoring rule "${pattern.original_text}" - unreadable conditions:`, error)
+      conditions = NEVER
+    }
+  }
+
+  parsedConditions.set(pattern, conditions)
+  return conditions
+}
+
+/**
+ * Check a rule's conditions against the words around a match of `length` words at `start`
+ */
+export function conditionsMet(pattern: CompressionPattern, words: CleanWord[], start: number, length: number): boolean {
+  const conditions = ruleConditions(pattern)
+  if (!conditions) return true
+
+  const end = start + length - 1
+  const atStart = start === 0 || endsSentence(words, start - 1)
+  const atEnd = endsSentence(words, end)
+
+  if (conditions.positions) {
+    const allowed = conditions.positions
+    const fits = (atStart && allowed.indexOf('start') !== -1) ||
+      (atEnd && allowed.indexOf('end') !== -1) ||
+      (!atStart && !atEnd && allowed.indexOf('middle') !== -1)
+    if (!fits) return false
+  }
+
+  // Neighbors are read in the same sentence only
+  const previous = atStart ? null : words[start - 1]
+  const next = atEnd ? null : words[end + 1]
+
+  if (conditions.precededBy && !(previous && matchesAny(previous, conditions.precededBy))) return false
+  if (conditions.notPrecededBy && previous && matchesAny(previous, conditions.notPrecededBy)) return false
+  if (conditions.followedBy && !(next && matchesAny(next, conditions.followedBy))) return false
+  if (conditions.notFollowedBy && next && matchesAny(next, conditions.notFollowedBy)) return false
+
+  if (conditions.excludeContexts) {
+    return !conditions.excludeContexts.some(context => containsMatch(words, start, length, context.split(' ')))
+  }
+  return true
+}
+
+/**
+ * Check a word against a list of words and word classes
+ */
+function matchesAny(word: CleanWord, list: string[]): boolean {
+  return list.some(entry => (entry[0] === '#' ? WORD_CLASSES[entry](word) : entry === word.clean))
+}
+
+/**
+ * Check whether `phrase` occurs in the text covering the whole match
+ */
+function containsMatch(words: CleanWord[], start: number, length: number, phrase: string[]): boolean {
+  for (let from = Math.max(0, start + length - phrase.length); from <= start; from++) {
+    if (from + phrase.length > words.length) break
+    if (phrase.every((part, offset) => words[from + offset].clean === part)) return true
+  }
+  return false
+}
@@ -0,0 +1,77 @@
+/**
+ * Test Suite for Rule Set layering and ownership
+ */
+
+import { layerPatterns, ownsRuleSet, ruleSetOwner, toOverridePattern, RuleSetLayer } from './rule-sets'
+import { CompressionPattern, RuleSet } from '../supabase'
+
+jest.mock('../supabase', () => ({ db: {} }))
+
+const pattern = (original: string, compressed: string, pass: number): CompressionPattern => ({
+  original_text: original,
+  compressed_form: compressed,
+  text_hash: original,
+  compression_type: pass === 1 ? 'phrase' : 'word',
+  usage_count: 0,
+  word_count: original.split(' ').length,
+  pass_priority: pass
+})
+
+const ruleSet = (owner: Partial<RuleSet>): RuleSet => ({
+  id: 'set-1',
+  name: 'Team',
+  description: null,
+  owner_key_hash: null,
+  owner_session: null,
+  created_at: '',
+  updated_at: '',
+  ...owner
+})
+
+describe('Rule Sets', () => {
+  describe('layerPatterns', () => {
+    const layer: RuleSetLayer = {
+      ruleSet: ruleSet({ owner_session: 'sess_1' }),
+      version: 1,
+      loadedAt: 0,
+      overrides: [
+        toOverridePattern({ id: 'o1', rule_set_id: 'set-1', original_text: 'explain', compressed_form: 'expl', action: 'override', confidence_score: 0.9, created_at: '' }),
+        toOverridePattern({ id: 'o2', rule_set_id: 'set-1', original_text: 'ticket number', compressed_form: 'TKT#', action: 'override', confidence_score: 0.9, created_at: '' })
+      ],
+      exclusions: new Set(['understand'])
+    }
+
+    test('should put overrides first and drop shadowed and excluded globals', () => {
+      const words = layerPatterns(
+        [pattern('Explain', 'xpln', 2), pattern('understand', 'undrst', 2), pattern('document', 'doc', 2)],
+        layer,
+        2
+      )
+
+      expect(words.map(p => `${p.original_text}→${p.compressed_form}`)).toEqual(['explain→expl', 'document→doc'])
+      expect(words[0].rule_set_id).toBe('set-1')
+    })
+
+    test('should only add overrides for the requested pass', () => {
+      const phrases = layerPatterns([pattern('machine learning', 'ML', 1)], layer, 1)
+
+      expect(phrases.map(p => p.original_text)).toEqual(['ticket number', 'machine learning'])
+    })
+  })
+
+  describe('ownership', () => {
+    test('should prefer the API key over the session', () => {
+      const owner = ruleSetOwner('secret', 'sess_1')
+
+      expect(owner.sessionId).toBeNull()
+      expect(ownsRuleSet(ruleSet({ owner_session: 'sess_1' }), owner)).toBe(false)
+      expect(ownsRuleSet(ruleSet({ owner_key_hash: owner.keyHash }), owner)).toBe(true)
+    })
+
+    test('should match session-owned sets by session id', () => {
+      expect(ownsRuleSet(ruleSet({ owner_session: 'sess_1' }), ruleSetOwner(undefined, 'sess_1'))).toBe(true)
+      expect(ownsRuleSet(ruleSet({ owner_session: 'sess_1' }), ruleSetOwner(undefined, 'sess_2'))).toBe(false)
+      expect(ownsRuleSet(ruleSet({ owner_session: 'sess_1' }), ruleSetOwner())).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Rule Sets (personal dictionaries)
+ * A named set of overrides and exclusions owned by an API key or a session,
+ * layered on top of the global compression rules. Team abbreviations stay
+ * inside the set and never reach anyone else's compressions.
+ */
+
+import { db, CompressionPattern, RuleSet, RuleSetRule } from '../supabase'
+import CryptoJS from 'crypto-js'
+
+export interface RuleSetOwner {
+  keyHash: string | null    // MD5 of the caller's API key
+  sessionId: string | null  // Used as owner only when there is no API key
+}
+
+export interface RuleSetLayer {
+  ruleSet: RuleSet
+  version: number
+  loadedAt: number
+  overrides: CompressionPattern[]  // Phrase and word rules that replace or extend global ones
+  exclusions: Set<string>          // Lowercased original_text of global rules to ignore
+}
+
+export interface RuleSetCacheStats {
+  cachedSets: number
+  ttlMs: number
+  loads: number
+  invalidations: number
+}
+
+// Rule set lifetime - bounds staleness for edits made by other processes
+const DEFAULT_TTL_MS = 60 * 1000
+
+// Rule set ids are UUIDs - anything else never reaches the database
+export const RULE_SET_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Identify who is calling - an API key always wins over a session
+ */
+export function ruleSetOwner(apiKey?: string, sessionId?: string): RuleSetOwner {
+  if (apiKey) {
+    return { keyHash: CryptoJS.MD5(apiKey).toString(), sessionId: null }
+  }
+  return { keyHash: null, sessionId: sessionId || null }
+}
+
+/**
+ * Check whether a caller owns a rule set
+ */
+export function ownsRuleSet(ruleSet: RuleSet, owner: RuleSetOwner): boolean {
+  if (owner.keyHash) return ruleSet.owner_key_hash === owner.keyHash
+  if (owner.sessionId) return ruleSet.owner_session === owner.sessionId
+  return false
+}
+
+/**
+ * Convert a rule set override into a pattern the matchers understand
+ */
+export function toOverridePattern(rule: RuleSetRule): CompressionPattern {
+  const wordCount = rule.original_text.split(/\s+/).length
+  return {
+    original_text: rule.original_text,
+    compressed_form: rule.compressed_form || '',
+    text_hash: rule.id,
+    compression_type: wordCount > 1 ? 'phrase' : 'word',
+    confidence_score: rule.confidence_score,
+    usage_count: 0,
+    word_count: wordCount,
+    pass_priority: wordCount > 1 ? 1 : 2,
+    rule_set_id: rule.rule_set_id
+  }
+}
+
+/**
+ * Layer a rule set over global patterns of one pass
+ * Overrides come first (the matchers keep the first pattern per text) and shadow global rules
+ */
+export function layerPatterns(
+  patterns: CompressionPattern[],
+  layer: RuleSetLayer,
+  pass: 1 | 2
+): CompressionPattern[] {
+  const overrides = layer.overrides.filter(pattern => pattern.pass_priority === pass)
+  const shadowed = new Set(layer.overrides.map(pattern => pattern.original_text.toLowerCase()))
+
+  const globals = patterns.filter(pattern => {
+    const key = pattern.original_text.toLowerCase()
+    return !layer.exclusions.has(key) && !shadowed.has(key)
+  })
+
+  return [...overrides, ...globals]
+}
+
+export class RuleSetCache {
+  private readonly layers = new Map<string, RuleSetLayer>()
+  private readonly pending = new Map<string, Promise<RuleSetLayer | null>>()
+  private version = 0
+  private loads = 0
+  private invalidations = 0
+
+  constructor(private readonly ttlMs: number = DEFAULT_TTL_MS) {}
+
+  /**
+   * Get a rule set with its rules, or null when it doesn't exist
+   */
+  async get(id: string): Promise<RuleSetLayer | null> {
+    const cached = this.layers.get(id)
+    if (cached && Date.now() - cached.loadedAt <= this.ttlMs) {
+      return cached
+    }
+
+    // Concurrent requests for the same set share a single load
+    const existing = this.pending.get(id)
+    if (existing) return existing
+
+    const load = this.load(id)
+    this.pending.set(id, load)
+    return load
+  }
+
+  /**
+   * Drop a cached rule set after it was edited or deleted
+   */
+  invalidate(id: string, reason: string = 'manual') {
+    this.layers.delete(id)
+    this.invalidations++
+    console.log(`♻️ Rule set ${id} invalidated: ${reason}`)
+  }
+
+  /**
+   * Get cache statistics for admin endpoints
+   */
+  getStats(): RuleSetCacheStats {
+    return {
+      cachedSets: this.layers.size,
+      ttlMs: this.ttlMs,
+      loads: this.loads,
+      invalidations: this.invalidations
+    }
+  }
+
+  /**
+   * Load a rule set and split its rules into overrides and exclusions
+   */
+  private async load(id: string): Promise<RuleSetLayer | null> {
+    try {
+      const ruleSet = await db.getRuleSet(id)
+      if (!ruleSet) {
+        this.layers.delete(id)
+        return null
+      }
+
+      const rules = await db.getRuleSetRules(id)
+      const layer: RuleSetLayer = {
+        ruleSet,
+        version: ++this.version,
+        loadedAt: Date.now(),
+        overrides: rules.filter(rule => rule.action === 'override' && rule.compressed_form).map(toOverridePattern),
+        exclusions: new Set(rules.filter(rule => rule.action === 'exclude').map(rule => rule.original_text.toLowerCase()))
+      }
+
+      this.loads++
+      this.layers.set(id, layer)
+      console.log(`Loaded rule set "${ruleSet.name}" v${layer.version}: ${layer.overrides.length} overrides, ${layer.exclusions.size} exclusions`)
+      return layer
+    } catch (error) {
+      console.error('Failed to load rule set:', error)
+      throw new Error('Database connection failed')
+    } finally {
+      this.pending.delete(id)
+    }
+  }
+}
+
+// Export singleton instance
+export const ruleSetCache = new RuleSetCache()
@@ -0,0 +1,58 @@
+/**
+ * Test Suite for Phrase Segmentation
+ */
+
+import { optimalSegments, isSegmentationMode, segmentScore } from './segmentation'
+
+const spans = (chosen: { start: number; length: number }[]) => chosen.map(segment => `${segment.start}+${segment.length}`)
+
+describe('Phrase Segmentation', () => {
+  test('should prefer two shorter segments that score more than one long one', () => {
+    const chosen = optimalSegments([
+      { start: 1, length: 3, score: 10 },
+      { start: 0, length: 2, score: 6 },
+      { start: 2, length: 2, score: 6 }
+    ], 4)
+
+    expect(spans(chosen)).toEqual(['0+2', '2+2'])
+  })
+
+  test('should keep the long segment when it scores more', () => {
+    const chosen = optimalSegments([
+      { start: 0, length: 4, score: 13 },
+      { start: 0, length: 2, score: 6 },
+      { start: 2, length: 2, score: 6 }
+    ], 4)
+
+    expect(spans(chosen)).toEqual(['0+4'])
+  })
+
+  test('should prefer fewer segments on equal scores', () => {
+    const chosen = optimalSegments([
+      { start: 0, length: 1, score: 3 },
+      { start: 1, length: 1, score: 3 },
+      { start: 0, length: 2, score: 6 }
+    ], 2)
+
+    expect(spans(chosen)).toEqual(['0+2'])
+  })
+
+  test('should never choose segments that save nothing', () => {
+    const chosen = optimalSegments([
+      { start: 0, length: 2, score: 0 },
+      { start: 2, length: 1, score: -2 }
+    ], 3)
+
+    expect(chosen).toEqual([])
+  })
+
+  test('should ignore segments running past the text', () => {
+    expect(optimalSegments([{ start: 2, length: 3, score: 9 }], 4)).toEqual([])
+  })
+
+  test('should weight savings by confidence', () => {
+    expect(segmentScore(20, 0.5)).toBe(10)
+    expect(isSegmentationMode('optimal')).toBe(true)
+    expect(isSegmentationMode('best')).toBe(false)
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Phrase Segmentation
+ * Chooses which phrase matches Pass 1 applies. `greedy` takes the longest window
+ * first, left to right; `optimal` picks the set of non-overlapping matches with the
+ * highest total score, so two shorter rules can beat one long rule that blocks them.
+ */
+
+export type SegmentationMode = 'greedy' | 'optimal'
+
+export const SEGMENTATION_MODES: SegmentationMode[] = ['greedy', 'optimal']
+
+export interface SegmentCandidate {
+  start: number    // Token position of the first word
+  length: number   // Words covered
+  score: number    // Savings × confidence - higher is better
+}
+
+/**
+ * Check whether a value names a segmentation mode
+ */
+export function isSegmentationMode(value: unknown): value is SegmentationMode {
+  return typeof value === 'string' && SEGMENTATION_MODES.indexOf(value as SegmentationMode) !== -1
+}
+
+/**
+ * Score of a rule - what it saves (characters or LLM tokens), weighted by how much we trust it
+ */
+export function segmentScore(saved: number, confidence: number): number {
+  return saved * confidence
+}
+
+/**
+ * Best set of non-overlapping candidates over `tokenCount` positions
+ * Dynamic programming from the end: best[i] is the highest score reachable from position i.
+ * Candidates scoring 0 or less are never chosen; on equal scores fewer, longer segments win.
+ */
+export function optimalSegments<T extends SegmentCandidate>(candidates: T[], tokenCount: number): T[] {
+  const byStart: T[][] = []
+  for (let i = 0; i < tokenCount; i++) byStart.push([])
+  candidates.forEach(candidate => {
+    if (candidate.score > 0 && candidate.start >= 0 && candidate.start + candidate.length <= tokenCount) {
+      byStart[candidate.start].push(candidate)
+    }
+  })
+
+  const best: number[] = new Array(tokenCount + 1)
+  const segments: number[] = new Array(tokenCount + 1)   // Segments used by best[i], for tie-breaking
+  const choice: (T | null)[] = new Array(tokenCount + 1)
+  best[tokenCount] = 0
+  segments[tokenCount] = 0
+  choice[tokenCount] = null
+
+  for (let i = tokenCount - 1; i >= 0; i--) {
+    // Leave word i as it is
+    best[i] = best[i + 1]
+    segments[i] = segments[i + 1]
+    choice[i] = null
+
+    byStart[i].forEach(candidate => {
+      const end = i + candidate.length
+      const score = candidate.score + best[end]
+      const count = 1 + segments[end]
+      if (score > best[i] + 1e-9 || (Math.abs(score - best[i]) <= 1e-9 && choice[i] !== null && count < segments[i])) {
+        best[i] = score
+        segments[i] = count
+        choice[i] = candidate
+      }
+    })
+  }
+
+  const chosen: T[] = []
+  let position = 0
+  while (position < tokenCount) {
+    const candidate = choice[position]
+    if (candidate) {
+      chosen.push(candidate)
+      position += candidate.length
+    } else {
+      position++
+    }
+  }
+  return chosen
+}
@@ -0,0 +1,188 @@
+/**
+ * Compression Segments
+ * Splits a compression into ordered segments - unchanged text, replaced spans and
+ * Pass 0 removals - located by character offsets in the input, so clients can render
+ * a diff without replaying token positions. Joined in order, the segments' `original`
+ * texts give back the input and their `compressed` texts give the compressed output.
+ */
+
+import type { Pass0Result, Pass0Sentence } from './pass-zero'
+import type { AppliedRule } from './two-pass-engine'
+
+export type SegmentType = 'unchanged' | 'replaced' | 'removed'
+
+export interface CompressionSegment {
+  type: SegmentType
+  original: string      // Input text covered - CompressionResult.original from `start` to `end`
+  compressed: string    // What it became in CompressionResult.compressed (empty when removed)
+  start: number
+  end: number
+  ruleId?: string       // Rule that replaced or removed the text
+  pass?: number         // Pass that rule ran in - 0 for removals and the "?" they add
+  removal?: string      // Pass 0 removal kind: prefix, pleasantry, hedge or sign_off
+}
+
+export interface OutputPiece {
+  whitespace: string    // Whitespace before the piece in the compressed text (ignored for the first piece)
+  leading: string
+  word: string
+  trailing: string
+  first: number         // Index of the first token the piece covers
+  start: number         // Offsets of its words in the Pass 0 output
+  end: number
+  removed?: boolean     // Words a pass dropped - no output
+}
+
+/**
+ * Build the segments of a compression from its Pass 0 result and output pieces
+ */
+export function buildSegments(
+  input: string,
+  pass0Result: Pass0Result,
+  pieces: OutputPiece[],
+  appliedRules: AppliedRule[]
+): CompressionSegment[] {
+  // Pass 0 offsets are into the trimmed input
+  const lead = (input.match(/^\s*/) as RegExpMatchArray)[0].length
+  const kept = pass0Result.sentences.filter(sentence => sentence.processedStart >= 0)
+  const items: (CompressionSegment & { whitespace?: string })[] = []
+
+  pieces.forEach(piece => {
+    const sentence = sentenceAt(kept, piece.start)
+    const rule = appliedRules.find(candidate => candidate.pass !== 0 && candidate.startIndex === piece.first)
+    let text = piece.leading + piece.word + piece.trailing
+    let addedQuestionMark: CompressionSegment | null = null
+
+    // A "?" Pass 0 added belongs to the prefix removal, not to the last word
+    const content = sentence ? contentLength(sentence) : 0
+    if (sentence && sentence.questionMarkAdded && piece.end > sentence.processedStart + content && text.charAt(text.length - 1) === '?') {
+      text = text.slice(0, -1)
+      addedQuestionMark = {
+        type: 'replaced', original: '', compressed: '?', start: lead + sentence.end, end: lead + sentence.end,
+        ruleId: sentence.prefixId ?? undefined, pass: 0
+      }
+    }
+
+    const start = lead + toInputOffset(sentence, piece.start)
+    const end = lead + toInputOffset(sentence, piece.end)
+    items.push({
+      type: piece.removed ? 'removed' : rule ? 'replaced' : 'unchanged',
+      original: input.slice(start, end),
+      compressed: text,
+      start,
+      end,
+      ruleId: rule ? rule.id : undefined,
+      pass: rule ? rule.pass : undefined,
+      whitespace: piece.whitespace
+    })
+    if (addedQuestionMark) items.push(addedQuestionMark)
+  })
+
+  // Removals inside a replaced span (a phrase matched across a dropped sentence) stay part of it
+  pass0Result.removals.forEach(removal => {
+    const start = lead + removal.start
+    const end = lead + removal.end
+    if (items.some(item => item.start < end && item.end > start)) return
+
+    const sentence = removal.kind === 'prefix'
+      ? pass0Result.sentences.find(candidate => candidate.start <= removal.start && removal.end <= candidate.end)
+      : undefined
+    items.push({
+      type: 'removed',
+      original: input.slice(start, end),
+      compressed: '',
+      start,
+      end,
+      ruleId: sentence && sentence.prefixId ? sentence.prefixId : undefined,
+      pass: 0,
+      removal: removal.kind
+    })
+  })
+  items.sort((a, b) => a.start - b.start || (a.end - a.start) - (b.end - b.start))
+
+  // Fill the gaps between items - whitespace that was kept, changed or dropped
+  const segments: CompressionSegment[] = []
+  let cursor = 0
+  let firstPiece = true
+  items.forEach(item => {
+    const isPiece = item.whitespace !== undefined
+    const gap = input.slice(cursor, item.start)
+    addGap(segments, gap, cursor, isPiece && !firstPiece ? (item.whitespace as string) : '', item)
+    if (isPiece && item.type !== 'removed') firstPiece = false
+
+    const { whitespace, ...segment } = item
+    pushSegment(segments, segment)
+    cursor = Math.max(cursor, item.end)
+  })
+  addGap(segments, input.slice(cursor), cursor, '')
+
+  return segments
+}
+
+/**
+ * Kept sentence holding an offset of the Pass 0 output
+ */
+function sentenceAt(kept: Pass0Sentence[], offset: number): Pass0Sentence | undefined {
+  let found: Pass0Sentence | undefined
+  kept.forEach(sentence => {
+    if (sentence.processedStart <= offset) found = sentence
+  })
+  return found
+}
+
+/**
+ * Characters of a kept sentence taken from the input - everything but an added "?"
+ */
+function contentLength(sentence: Pass0Sentence): number {
+  return sentence.processed.length - (sentence.questionMarkAdded ? 1 : 0)
+}
+
+/**
+ * Map an offset of the Pass 0 output to the trimmed input - a sentence's text after
+ * its removed prefix and lead-ins is the end of its input span
+ */
+function toInputOffset(sentence: Pass0Sentence | undefined, offset: number): number {
+  if (!sentence) return offset
+  const content = contentLength(sentence)
+  const within = Math.min(offset - sentence.processedStart, content)
+  return sentence.end - content + within
+}
+
+/**
+ * Add the input text between two items, as kept or dropped whitespace
+ */
+function addGap(segments: CompressionSegment[], gap: string, start: number, compressed: string, next?: CompressionSegment) {
+  if (gap.length === 0 && compressed.length === 0) return
+  const end = start + gap.length
+
+  if (compressed.length > 0) {
+    pushSegment(segments, { type: 'unchanged', original: gap, compressed, start, end })
+    return
+  }
+
+  // Dropped whitespace joins the removal next to it
+  const previous = segments[segments.length - 1]
+  if (previous && previous.type === 'removed') {
+    previous.original += gap
+    previous.end = end
+  } else if (next && next.type === 'removed' && next.start === end) {
+    next.original = gap + next.original
+    next.start = start
+  } else {
+    segments.push({ type: 'removed', original: gap, compressed: '', start, end })
+  }
+}
+
+/**
+ * Append a segment, merging runs of unchanged text
+ */
+function pushSegment(segments: CompressionSegment[], segment: CompressionSegment) {
+  const previous = segments[segments.length - 1]
+  if (previous && previous.type === 'unchanged' && segment.type === 'unchanged') {
+    previous.original += segment.original
+    previous.compressed += segment.compressed
+    previous.end = segment.end
+    return
+  }
+  segments.push(segment)
+}
@@ -0,0 +1,84 @@
+/**
+ * Test Suite for Template and Regex Rules - compilation and matching
+ */
+
+import { compileTemplateRule, nextTemplateMatch, normalizeTemplate, MAX_REGEX_INPUT_LENGTH } from './template-rules'
+import { CompressionPattern } from '../supabase'
+
+const rule = (type: string, source: string, output: string): CompressionPattern => ({
+  original_text: source,
+  compressed_form: output,
+  text_hash: `h-${source}`,
+  compression_type: type,
+  usage_count: 0
+})
+
+describe('Template Rules', () => {
+  describe('compileTemplateRule', () => {
+    test('should normalize template literals and keep slots', () => {
+      expect(normalizeTemplate('How do I  {verb} a {Noun+}?')).toBe('how do i {verb} a {noun+}')
+    })
+
+    test('should reject broken templates', () => {
+      expect(() => compileTemplateRule(rule('template', '{a} {b}', '{a}'))).toThrow('at least one literal word')
+      expect(() => compileTemplateRule(rule('template', 'use {a} or {a}', '{a}'))).toThrow('appears twice')
+      expect(() => compileTemplateRule(rule('template', 'use {a}', '{b}'))).toThrow('unknown slot {b}')
+      expect(() => compileTemplateRule(rule('template', 'use {a-b}', '{a}'))).toThrow('is not a slot')
+      expect(() => compileTemplateRule(rule('template', 'use {a}', ' '))).toThrow('compressedForm is empty')
+    })
+
+    test('should reject broken regexes', () => {
+      expect(() => compileTemplateRule(rule('regex', 'how (do', '$1'))).toThrow('Invalid template rule')
+      expect(() => compileTemplateRule(rule('regex', 'x*', 'y'))).toThrow('matches empty text')
+      expect(() => compileTemplateRule(rule('regex', 'how (\\w+)', '$2'))).toThrow('has 1 groups')
+    })
+
+    test('should reject regexes that backtrack exponentially', () => {
+      expect(() => compileTemplateRule(rule('regex', '([a-z]+ ?)+!', 'x'))).toThrow('"([a-z]+ ?)+" can take exponential time')
+      expect(() => compileTemplateRule(rule('regex', '(a|ab)*c', 'x'))).toThrow('exponential time')
+      expect(() => compileTemplateRule(rule('regex', '(?:(\\w)?x)+', 'x'))).toThrow('exponential time')
+      expect(() => compileTemplateRule(rule('regex', 'use (\\S+) or (?:[+*]x)+', '$1'))).not.toThrow()
+    })
+  })
+
+  describe('nextTemplateMatch', () => {
+    test('should fill slots into the compressed form', () => {
+      const template = compileTemplateRule(rule('template', 'how do i {verb} a {noun+}', '{verb} {noun}?'))
+
+      expect(nextTemplateMatch(template, 'so how do i sort a linked list', 0)).toEqual({
+        start: 3,
+        end: 30,
+        text: 'how do i sort a linked list',
+        output: 'sort linked list?'
+      })
+    })
+
+    test('should fill regex groups into the compressed form', () => {
+      const regex = compileTemplateRule(rule('regex', 'what is the difference between (\\S+) and (\\S+)', '$1 vs $2?'))
+
+      expect(nextTemplateMatch(regex, 'what is the difference between let and const', 0)?.output).toBe('let vs const?')
+    })
+
+    test('should only match whole words', () => {
+      const regex = compileTemplateRule(rule('regex', 'in order to', 'to'))
+
+      expect(nextTemplateMatch(regex, 'within order to', 0)).toBeNull()
+      expect(nextTemplateMatch(regex, 'x in order to y', 0)?.start).toBe(2)
+    })
+
+    test('should skip regex rules on sentences too long to scan safely', () => {
+      const regex = compileTemplateRule(rule('regex', 'in order to', 'to'))
+      const words = `in order to ${'run '.repeat(MAX_REGEX_INPUT_LENGTH / 4)}`
+
+      expect(nextTemplateMatch(regex, words, 0)).toBeNull()
+      expect(nextTemplateMatch(compileTemplateRule(rule('template', 'in order to {verb}', 'to {verb}')), words, 0)).not.toBeNull()
+    })
+
+    test('should find later matches from an offset', () => {
+      const template = compileTemplateRule(rule('template', 'in order to {verb}', 'to {verb}'))
+      const words = 'in order to run and in order to stop'
+
+      expect(nextTemplateMatch(template, words, 1)?.output).toBe('to stop')
+    })
+  })
+})
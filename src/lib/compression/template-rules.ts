@@ -0,0 +1,228 @@
+/**
+ * Template and Regex Rules
+ * One rule covering many phrasings: a slot template ("how do i {verb} a {noun+}")
+ * or a regular expression, with the captured words substituted into the compressed
+ * form. Both match the lowercased words of one sentence, joined by single spaces.
+ */
+
+import type { CompressionPattern } from '../supabase'
+import { getCleanWordForMatching } from '../text-utils'
+
+export type TemplateRuleType = 'template' | 'regex'
+
+export interface TemplateRule {
+  pattern: CompressionPattern
+  regex: RegExp      // Global - run against the words of one sentence
+  slots: string[]    // Slot names in group order (empty for regex rules)
+}
+
+export interface TemplateMatch {
+  start: number      // Offset of the first matched character
+  end: number        // Offset after the last matched character
+  text: string       // Matched words
+  output: string     // Compressed form with the captures filled in
+}
+
+export const TEMPLATE_RULE_TYPES: TemplateRuleType[] = ['template', 'regex']
+
+// Template rules live in their own pass priority, run between Pass 0 and Pass 1
+export const TEMPLATE_PASS_PRIORITY = 3
+
+const MAX_SOURCE_LENGTH = 200
+// Regex rules skip longer sentences - backtracking cost grows with the input
+export const MAX_REGEX_INPUT_LENGTH = 500
+const SLOT_PART_REGEX = /^\{([a-z][a-z0-9_]*)(\+?)\}$/
+const SLOT_REFERENCE_REGEX = /\{([a-z][a-z0-9_]*)\+?\}/g
+const GROUP_REFERENCE_REGEX = /\$(\d)/g
+
+/**
+ * Check whether a compression type is a template or regex rule
+ */
+export function isTemplateRuleType(type: unknown): type is TemplateRuleType {
+  return typeof type === 'string' && TEMPLATE_RULE_TYPES.indexOf(type as TemplateRuleType) !== -1
+}
+
+/**
+ * Normalize a slot template - literal words lowercased without punctuation, single spaces
+ */
+export function normalizeTemplate(source: string): string {
+  return source.trim().split(/\s+/).map(part => {
+    const slot = part.match(/\{[^}]*\}/)
+    return slot ? slot[0].toLowerCase() : getCleanWordForMatching(part)
+  }).filter(part => part.length > 0).join(' ')
+}
+
+/**
+ * Compile and validate a template or regex rule - throws with the reason it can't be used
+ */
+export function compileTemplateRule(pattern: CompressionPattern): TemplateRule {
+  const type = pattern.compression_type
+  const source = pattern.original_text
+  const output = pattern.compressed_form
+
+  if (!isTemplateRuleType(type)) {
+    throw new Error(`Invalid template rule: unknown type ${type}`)
+  }
+  if (!source || source.length > MAX_SOURCE_LENGTH) {
+    throw new Error(`Invalid template rule: the ${type} must be 1-${MAX_SOURCE_LENGTH} characters`)
+  }
+  if (!output || output.trim().length === 0) {
+    throw new Error('Invalid template rule: compressedForm is empty')
+  }
+
+  return type === 'template' ? compileSlotTemplate(pattern) : compileRegex(pattern)
+}
+
+/**
+ * Find the next match at or after `from` that starts and ends on word boundaries
+ */
+export function nextTemplateMatch(rule: TemplateRule, words: string, from: number): TemplateMatch | null {
+  if (rule.pattern.compression_type === 'regex' && words.length > MAX_REGEX_INPUT_LENGTH) return null
+
+  rule.regex.lastIndex = from
+  let match: RegExpExecArray | null
+  while ((match = rule.regex.exec(words)) !== null) {
+    const start = match.index
+    const end = start + match[0].length
+    const onBoundaries = (start === 0 || words[start - 1] === ' ') && (end === words.length || words[end] === ' ')
+
+    if (match[0].length > 0 && onBoundaries) {
+      const output = fillOutput(rule, match)
+      if (output.length > 0) {
+        return { start, end, text: match[0].trim(), output }
+      }
+    }
+    rule.regex.lastIndex = start + 1
+  }
+  return null
+}
+
+/**
+ * Build the regex for "how do i {verb} a {noun+}" - a slot is one word, a "+" slot one or more
+ */
+function compileSlotTemplate(pattern: CompressionPattern): TemplateRule {
+  const parts = normalizeTemplate(pattern.original_text).split(' ')
+  const slots: string[] = []
+
+  const regexParts = parts.map(part => {
+    const slot = part.match(SLOT_PART_REGEX)
+    if (!slot) {
+      if (/[{}]/.test(part)) {
+        throw new Error(`Invalid template rule: "${part}" is not a slot - use {name} or {name+}`)
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+    if (slots.indexOf(slot[1]) !== -1) {
+      throw new Error(`Invalid template rule: slot {${slot[1]}} appears twice`)
+    }
+    slots.push(slot[1])
+    return slot[2] === '+' ? '([^ ]+(?: [^ ]+)*)' : '([^ ]+)'
+  })
+
+  if (slots.length === parts.length) {
+    throw new Error('Invalid template rule: a template needs at least one literal word')
+  }
+  const unknown = (pattern.compressed_form.match(SLOT_REFERENCE_REGEX) || [])
+    .map(reference => reference.replace(/[{}+]/g, ''))
+    .filter(name => slots.indexOf(name) === -1)
+  if (unknown.length > 0) {
+    throw new Error(`Invalid template rule: compressedForm uses unknown slot {${unknown[0]}}`)
+  }
+
+  return { pattern, regex: new RegExp(regexParts.join(' '), 'g'), slots }
+}
+
+/**
+ * Build a regex rule - the source runs as written against lowercased words
+ */
+function compileRegex(pattern: CompressionPattern): TemplateRule {
+  const ambiguous = ambiguousRepetition(pattern.original_text)
+  if (ambiguous) {
+    throw new Error(`Invalid template rule: ${ambiguous} can take exponential time - repeat a group without quantifiers or alternatives inside`)
+  }
+
+  let regex: RegExp
+  try {
+    regex = new RegExp(pattern.original_text, 'g')
+  } catch (error) {
+    throw new Error(`Invalid template rule: ${(error as Error).message}`)
+  }
+
+  if (regex.test('')) {
+    throw new Error('Invalid template rule: the regex matches empty text')
+  }
+  regex.lastIndex = 0
+
+  // An alternative that always matches reveals how many groups the source has
+  const groups = (new RegExp(`${pattern.original_text}|`).exec('') as RegExpExecArray).length - 1
+  const invalid = (pattern.compressed_form.match(GROUP_REFERENCE_REGEX) || [])
+    .filter(reference => Number(reference.slice(1)) === 0 || Number(reference.slice(1)) > groups)
+  if (invalid.length > 0) {
+    throw new Error(`Invalid template rule: compressedForm uses ${invalid[0]} but the regex has ${groups} groups`)
+  }
+
+  return { pattern, regex, slots: [] }
+}
+
+/**
+ * Find a repeated group holding a quantifier or an alternative - "([a-z]+ ?)+", "(a|ab)*" -
+ * which backtracks through every way of splitting the input. Null when there is none
+ */
+function ambiguousRepetition(source: string): string | null {
+  const groups: Array<{ start: number; ambiguous: boolean }> = []
+  let i = 0
+  while (i < source.length) {
+    const char = source[i]
+    if (char === '\\') {
+      i += 2
+      continue
+    }
+    if (char === '[') {
+      // Skip the class - quantifier characters inside it are literals
+      i++
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1
+      i++
+      continue
+    }
+    if (char === '(') {
+      groups.push({ start: i, ambiguous: false })
+      i++
+      // "(?:", "(?=", "(?<name>" - the "?" is not a quantifier
+      if (source[i] === '?') {
+        i++
+        if (source[i] === '<' && source[i + 1] !== '=' && source[i + 1] !== '!') {
+          while (i < source.length && source[i] !== '>') i++
+        }
+        i++
+      }
+      continue
+    }
+
+    const group = groups[groups.length - 1]
+    if (char === ')') {
+      groups.pop()
+      const repeated = '*+{'.indexOf(source[i + 1]) !== -1
+      if (group && repeated && group.ambiguous) {
+        return `"${source.slice(group.start, i + 2)}"`
+      }
+      // A group that holds or carries a quantifier makes its enclosing group ambiguous too
+      const parent = groups[groups.length - 1]
+      if (parent && group && (group.ambiguous || repeated || source[i + 1] === '?')) parent.ambiguous = true
+    } else if (group && '*+?{|'.indexOf(char) !== -1) {
+      group.ambiguous = true
+    }
+    i++
+  }
+  return null
+}
+
+/**
+ * Substitute a match's captures into the rule's compressed form
+ */
+function fillOutput(rule: TemplateRule, match: RegExpExecArray): string {
+  const form = rule.pattern.compressed_form
+  const filled = rule.slots.length > 0
+    ? form.replace(SLOT_REFERENCE_REGEX, (_, name) => match[rule.slots.indexOf(name) + 1] || '')
+    : form.replace(GROUP_REFERENCE_REGEX, (_, group) => match[Number(group)] || '')
+  return filled.replace(/\s+/g, ' ').trim()
+}
@@ -2,7 +2,11 @@
  * Integration Test Suite for Three-Pass Compression Engine
  */
 
-import { ThreePassCompressionEngine } from './two-pass-engine'
+import { ThreePassCompressionEngine, StreamChunkResult, AppliedRule, CompressionResult } from './two-pass-engine'
+import { CompressionTrace } from './trace'
+import { PatternSnapshotCache } from './pattern-snapshot'
+import { PassRegistry, PassContext } from './pass-pipeline'
+import { db } from '../supabase'
 
 // Mock the database and dependencies
 jest.mock('../supabase', () => ({
@@ -13,22 +17,49 @@ jest.mock('../supabase', () => ({
         return Promise.resolve([
           { id: '1', original_text: 'can you please', compressed_form: '?', word_count: 3, confidence_score: 0.95, pass_priority: 0 },
           { id: '2', original_text: 'could you', compressed_form: '?', word_count: 2, confidence_score: 0.85, pass_priority: 0 },
+          { id: '8', text_hash: 'h-can-you', original_text: 'can you', compressed_form: '?', word_count: 2, confidence_score: 0.85, pass_priority: 0 },
+          { id: '9', text_hash: 'h-please', original_text: 'please', compressed_form: '?', word_count: 1, confidence_score: 0.75, pass_priority: 0 },
+          { id: '10', text_hash: 'h-bitte', original_text: 'bitte', compressed_form: '?', word_count: 1, confidence_score: 0.75, pass_priority: 0, language: 'de' },
         ])
       } else if (priority === 1) {
         // Pass 1 phrase patterns
         return Promise.resolve([
           { id: '3', original_text: 'machine learning', compressed_form: 'ML', word_count: 2, confidence_score: 0.90, pass_priority: 1 },
           { id: '4', original_text: 'by the way', compressed_form: 'BTW', word_count: 3, confidence_score: 0.95, pass_priority: 1 },
+          { id: '14', original_text: 'thank you', compressed_form: 'thx', word_count: 2, confidence_score: 0.90, pass_priority: 1 },
+          { id: '15', original_text: 'type script', compressed_form: 'TS', word_count: 2, confidence_score: 0.90, pass_priority: 1, case_policy: 'source' },
+          { id: '16', original_text: 'as soon as possible', compressed_form: 'asap', word_count: 4, confidence_score: 0.90, pass_priority: 1, case_policy: 'upper' },
+          { id: '17', original_text: 'javascript', compressed_form: 'JS', word_count: 1, confidence_score: 0.90, pass_priority: 1, case_policy: 'preserve' },
+          { id: '18', original_text: 'learning model evaluation', compressed_form: 'lme', word_count: 3, confidence_score: 0.75, pass_priority: 1 },
+          { id: '19', original_text: 'model evaluation', compressed_form: 'model eval', word_count: 2, confidence_score: 0.90, pass_priority: 1 },
+          { id: '20', original_text: 'neural network', compressed_form: 'NN', word_count: 3, confidence_score: 0.90, pass_priority: 1 },
+        ])
+      } else if (priority === 3) {
+        // Template pass patterns
+        return Promise.resolve([
+          { id: '13', text_hash: 'h-how-do-i', original_text: 'how do i {verb} a {noun+}', compressed_form: '{verb} {noun}?', word_count: 6, confidence_score: 0.80, pass_priority: 3, compression_type: 'template' },
         ])
       } else {
         // Pass 2 word patterns
         return Promise.resolve([
           { id: '5', original_text: 'explain', compressed_form: 'xpln', word_count: 1, confidence_score: 0.80, pass_priority: 2 },
+          { id: '21', original_text: 'deploy', compressed_form: 'dply', word_count: 1, confidence_score: 0.80, pass_priority: 2, inflect: true },
           { id: '6', original_text: 'understand', compressed_form: 'undrst', word_count: 1, confidence_score: 0.75, pass_priority: 2 },
+          { id: '7', original_text: 'information', compressed_form: 'info', word_count: 1, confidence_score: 0.50, pass_priority: 2 },
+          { id: '12', original_text: 'for', compressed_form: '4', word_count: 1, confidence_score: 0.80, pass_priority: 2, context: '{"notFollowedBy": ["loop"]}' },
+          { id: '11', original_text: 'erkläre', compressed_form: 'erkl', word_count: 1, confidence_score: 0.80, pass_priority: 2, language: 'de' },
         ])
       }
     }),
     incrementUsage: jest.fn(() => Promise.resolve()),
+    getRuleSet: jest.fn((id: string) => Promise.resolve(
+      id === 'team-set' ? { id: 'team-set', name: 'Team', description: null, owner_key_hash: null, owner_session: 'sess_team' } : null
+    )),
+    getRuleSetRules: jest.fn(() => Promise.resolve([
+      { id: 'r1', rule_set_id: 'team-set', original_text: 'acme platform', compressed_form: 'AP', action: 'override', confidence_score: 0.90 },
+      { id: 'r2', rule_set_id: 'team-set', original_text: 'explain', compressed_form: 'expl', action: 'override', confidence_score: 0.90 },
+      { id: 'r3', rule_set_id: 'team-set', original_text: 'understand', compressed_form: null, action: 'exclude', confidence_score: 0 },
+    ])),
   }
 }))
 
@@ -152,6 +183,85 @@ describe('Three-Pass Compression Engine', () => {
     })
   })
 
+  describe('Confidence Modes', () => {
+    const input = 'Explain machine learning information'
+
+    test('should apply only default-band rules by default', async () => {
+      const result = await engine.compress(input)
+
+      expect(result.confidenceMode).toBe('default')
+      expect(result.confidenceThreshold).toBe(0.70)
+      expect(result.compressed).toBe('Xpln ML information')
+    })
+
+    test('should restrict rules in conservative mode', async () => {
+      const result = await engine.compress(input, undefined, { confidenceMode: 'conservative' })
+
+      expect(result.confidenceMode).toBe('conservative')
+      expect(result.compressed).toBe('Explain ML information')
+      expect(result.rulesApplied.every(rule => rule.confidence >= 0.85)).toBe(true)
+    })
+
+    test('should include low-confidence rules in aggressive mode', async () => {
+      const result = await engine.compress(input, undefined, { confidenceMode: 'aggressive' })
+
+      expect(result.confidenceThreshold).toBe(0.40)
+      expect(result.compressed).toBe('Xpln ML info')
+    })
+
+    test('should cache each mode separately', async () => {
+      await engine.compress(input, undefined, { confidenceMode: 'aggressive' })
+      const conservative = await engine.compress(input, undefined, { confidenceMode: 'conservative' })
+      const defaultMode = await engine.compress(input, undefined, { confidenceMode: 'default' })
+      const implicitDefault = await engine.compress(input)
+
+      expect(conservative.fromCache).toBe(false)
+      expect(defaultMode.fromCache).toBe(false)
+      expect(implicitDefault.fromCache).toBe(true)
+    })
+  })
+
+  describe('Token Metrics', () => {
+    test('should report original and compressed token counts', async () => {
+      const result = await engine.compress('Can you please explain machine learning?')
+
+      expect(result.tokenStats.tokenizer).toBe('cl100k_base')
+      expect(result.tokenStats.originalTokens).toBeGreaterThan(result.tokenStats.compressedTokens)
+      expect(result.tokenStats.tokenSavings).toBe(
+        result.tokenStats.originalTokens - result.tokenStats.compressedTokens
+      )
+    })
+
+    test('should report token savings per rule', async () => {
+      const result = await engine.compress('Explain machine learning')
+
+      const phraseRule = result.rulesApplied.find(rule => rule.originalText === 'machine learning')
+      const wordRule = result.rulesApplied.find(rule => rule.originalText === 'explain')
+
+      expect(phraseRule?.tokenSavings).toBeGreaterThan(0)
+      // "xpln" splits into more BPE tokens than "explain"
+      expect(wordRule?.tokenSavings).toBeLessThan(0)
+    })
+
+    test('should skip token-costly rules in token-aware mode', async () => {
+      const result = await engine.compress('Explain machine learning', undefined, { tokenAware: true })
+
+      expect(result.compressed).toBe('Explain ML')
+      expect(result.tokenStats.rulesSkipped).toBe(1)
+      expect(result.rulesApplied.every(rule => (rule.tokenSavings ?? 0) >= 0)).toBe(true)
+    })
+
+    test('should accept a pluggable tokenizer', async () => {
+      engine.setTokenizer({ name: 'chars', countTokens: text => text.length })
+
+      const result = await engine.compress('Explain machine learning', undefined, { tokenAware: true })
+
+      expect(result.tokenStats.tokenizer).toBe('chars')
+      expect(result.tokenStats.originalTokens).toBe(24)
+      expect(result.compressed).toBe('Xpln ML')
+    })
+  })
+
   describe('Compression Ratios', () => {
     test('should calculate overall compression ratio correctly', async () => {
       const input = 'Can you please explain machine learning?'
@@ -233,6 +343,850 @@ describe('Three-Pass Compression Engine', () => {
       expect(result1.fromCache).toBe(false)
       expect(result2.fromCache).toBe(false)
     })
+
+    test('should key the cache on exact text casing', async () => {
+      await engine.compress('Explain the API')
+      const result = await engine.compress('explain the api')
+
+      expect(result.fromCache).toBe(false)
+      expect(engine.getCacheStats().size).toBe(2)
+    })
+
+    test('should miss the cache after rules change', async () => {
+      const cache = new PatternSnapshotCache()
+      const snapshotEngine = new ThreePassCompressionEngine(cache)
+      const input = 'Explain machine learning'
+
+      await snapshotEngine.compress(input)
+      cache.invalidate('rule added')
+      const result = await snapshotEngine.compress(input)
+
+      expect(result.fromCache).toBe(false)
+    })
+
+    test('should bypass the cache when caching is disabled', async () => {
+      const input = 'Explain machine learning'
+
+      await engine.compress(input)
+      const result = await engine.compress(input, undefined, { enableCaching: false })
+
+      expect(result.fromCache).toBe(false)
+    })
+
+    test('should bound the cache and report hit-rate metrics', async () => {
+      const boundedEngine = new ThreePassCompressionEngine(undefined, { maxEntries: 2, ttlMs: 60000 })
+
+      await boundedEngine.compress('Explain one')
+      await boundedEngine.compress('Explain two')
+      await boundedEngine.compress('Explain three')
+      await boundedEngine.compress('Explain three')
+
+      const stats = boundedEngine.getCacheStats()
+      expect(stats.size).toBe(2)
+      expect(stats.evictions).toBe(1)
+      expect(stats.hits).toBe(1)
+      expect(stats.misses).toBe(3)
+      expect(stats.hitRate).toBe(25)
+    })
+  })
+
+  describe('Pattern Snapshot', () => {
+    test('should load rules once for a burst of requests', async () => {
+      const snapshotEngine = new ThreePassCompressionEngine(new PatternSnapshotCache())
+
+      await snapshotEngine.compress('Explain machine learning')
+      await snapshotEngine.compress('Understand machine learning')
+      await snapshotEngine.compress('Explain it by the way')
+
+      // One query per pass priority, for the first request only
+      expect(db.getPatternsByPriority).toHaveBeenCalledTimes(4)
+    })
+
+    test('should reload rules after invalidation', async () => {
+      const cache = new PatternSnapshotCache()
+      const snapshotEngine = new ThreePassCompressionEngine(cache)
+
+      await snapshotEngine.compress('Explain machine learning')
+      expect(cache.getVersion()).toBe(1)
+
+      cache.invalidate('rule added')
+      await snapshotEngine.compress('Understand machine learning')
+
+      expect(db.getPatternsByPriority).toHaveBeenCalledTimes(8)
+      expect(cache.getVersion()).toBe(2)
+      expect(cache.getStats().lastInvalidationReason).toBe('rule added')
+    })
+
+    test('should reload rules once the TTL expires', async () => {
+      const cache = new PatternSnapshotCache(0)
+      const snapshotEngine = new ThreePassCompressionEngine(cache)
+
+      await snapshotEngine.compress('Explain machine learning')
+      await new Promise(resolve => setTimeout(resolve, 5))
+      await snapshotEngine.compress('Understand machine learning')
+
+      expect(cache.getVersion()).toBe(2)
+    })
+  })
+
+  describe('Batch Compression', () => {
+    test('should compress every item with one pattern load', async () => {
+      const batchEngine = new ThreePassCompressionEngine(new PatternSnapshotCache())
+
+      const batch = await batchEngine.compressBatch([
+        { id: 'a', text: 'Explain machine learning' },
+        { id: 'b', text: 'Can you please understand this?' },
+        { id: 'c', text: 'Explain machine learning' }
+      ])
+
+      expect(db.getPatternsByPriority).toHaveBeenCalledTimes(4)
+      expect(batch.results.map(item => item.id)).toEqual(['a', 'b', 'c'])
+      expect(batch.results[0].result?.compressed).toBe('Xpln ML')
+      expect(batch.results[2].result?.fromCache).toBe(true)
+    })
+
+    test('should report aggregate stats', async () => {
+      const batch = await engine.compressBatch([
+        { id: 'a', text: 'Explain machine learning' },
+        { id: 'b', text: 'Nothing to compress here' }
+      ], 'batch-session', { confidenceMode: 'conservative' })
+
+      expect(batch.stats.totalItems).toBe(2)
+      expect(batch.stats.succeeded).toBe(2)
+      expect(batch.stats.failed).toBe(0)
+      expect(batch.stats.originalLength).toBe(48)
+      expect(batch.stats.compressedLength).toBe(
+        batch.results.reduce((sum, item) => sum + (item.result?.compressed.length ?? 0), 0)
+      )
+      expect(batch.results[0].result?.confidenceMode).toBe('conservative')
+    })
+  })
+
+  describe('Decompression', () => {
+    test('should restore original wording from applied rules', async () => {
+      const input = 'Can you please explain machine learning to me?'
+
+      const compressed = await engine.compress(input)
+      const result = await engine.decompress(compressed.compressed, compressed.rulesApplied)
+
+      expect(result.usedRuleIndices).toBe(true)
+      expect(result.decompressed).toBe(input)
+      expect(result.rulesReversed.map(rule => rule.pass).sort()).toEqual([0, 1, 2])
+    })
+
+    test('should drop the question mark Pass 0 added', async () => {
+      const input = 'Could you please explain machine learning basics'
+
+      const compressed = await engine.compress(input)
+      const result = await engine.decompress(compressed.compressed, compressed.rulesApplied)
+
+      expect(result.decompressed).toBe(input)
+    })
+
+    test('should restore the prefix of every sentence', async () => {
+      const input = 'Can you please explain machine learning? Then summarize it.\nCan you explain the cache'
+
+      const compressed = await engine.compress(input)
+      const result = await engine.decompress(compressed.compressed, compressed.rulesApplied)
+
+      expect(result.decompressed).toBe(input)
+      expect(result.rulesReversed.filter(rule => rule.pass === 0).map(rule => rule.originalText))
+        .toEqual(['Can you please', 'Can you'])
+    })
+
+    test('should restore removed filler', async () => {
+      const input = 'Hi team, I was wondering if you could explain machine learning? Thanks in advance! ' +
+        'Could you explain the cache? Let me know if you have any questions.'
+
+      const compressed = await engine.compress(input, undefined, { enableCaching: false })
+      const result = await engine.decompress(compressed.compressed, compressed.rulesApplied)
+
+      expect(compressed.rulesApplied.filter(rule => rule.filler).map(rule => rule.id))
+        .toEqual(['pass0-greeting', 'pass0-wondering_if', 'pass0-thanks', 'pass0-let_me_know'])
+      expect(result.decompressed).toBe(input)
+      expect(db.incrementUsage).not.toHaveBeenCalledWith('thanks in advance!')
+    })
+
+    test('should restore the line breaks around removed filler', async () => {
+      const input = 'Hi team,\n\nCould you explain machine learning?\n\nThanks in advance!'
+
+      const compressed = await engine.compress(input, undefined, { enableCaching: false })
+      const result = await engine.decompress(compressed.compressed, compressed.rulesApplied)
+
+      expect(compressed.rulesApplied.filter(rule => rule.filler).map(rule => rule.separator)).toEqual(['\n\n', '\n\n'])
+      expect(result.decompressed).toBe(input)
+    })
+
+    test('should reverse-map compressed forms without applied rules', async () => {
+      const result = await engine.decompress('Xpln ML to me, then undrst it.')
+
+      expect(result.usedRuleIndices).toBe(false)
+      expect(result.decompressed).toBe('Explain machine learning to me, then understand it.')
+      expect(result.rulesReversed).toHaveLength(3)
+    })
+
+    test('should keep the casing a rule was stored with', async () => {
+      const rule = { id: 'gha', originalText: 'GitHub Actions', compressedForm: 'GHA', pass: 1, confidence: 0.9, startIndex: 2, endIndex: 3 }
+      const applied = await engine.decompress('Deploy with GHA.', [rule])
+      const reversed = await engine.decompress('Deploy with gha.', [{ ...rule, compressedForm: 'gha' }])
+
+      expect(applied.decompressed).toBe('Deploy with GitHub Actions.')
+      expect(reversed.decompressed).toBe('Deploy with GitHub Actions.')
+    })
+
+    test('should report abbreviations it cannot expand', async () => {
+      const result = await engine.decompress('xpln the cfg')
+
+      expect(result.decompressed).toBe('explain the cfg')
+      expect(result.unresolvedTokens).toEqual(['cfg'])
+    })
+  })
+
+  describe('Database Pass 0 Prefixes', () => {
+    test('should only remove prefixes stored in the database', async () => {
+      const result = await engine.compress('Would you explain machine learning')
+
+      expect(result.pass0Result?.prefixRemoved).toBeNull()
+      expect(result.compressed).toBe('Would you xpln ML')
+    })
+
+    test('should report the prefix rule and count its usage', async () => {
+      const result = await engine.compress('Can  you explain it', undefined, { enableCaching: false })
+      const prefixRule = result.rulesApplied.find(rule => rule.pass === 0)
+
+      expect(prefixRule).toMatchObject({ id: 'h-can-you', originalText: 'Can  you', confidence: 0.85 })
+      expect(db.incrementUsage).toHaveBeenCalledWith('can you')
+    })
+
+    test('should add a rule for every sentence that lost its prefix', async () => {
+      const result = await engine.compress('Can you explain it? Please explain machine learning', undefined, { enableCaching: false })
+      const prefixRules = result.rulesApplied.filter(rule => rule.pass === 0)
+
+      expect(result.compressed).toBe('xpln it? xpln ML?')
+      expect(prefixRules.map(rule => [rule.id, rule.startIndex, rule.endIndex, rule.compressedForm])).toEqual([
+        ['h-can-you', 0, 1, ''],
+        ['h-please', 2, 4, '?']
+      ])
+      expect(result.passResults.pass0.rulesApplied).toBe(2)
+    })
+
+    test('should filter prefixes by confidence mode', async () => {
+      const result = await engine.compress('Please explain it', undefined, { confidenceMode: 'conservative' })
+
+      expect(result.pass0Result?.prefixRemoved).toBeNull()
+    })
+
+    test('should use the built-in prefixes for a language without Pass 0 rows', async () => {
+      const result = await engine.compress('¿Puedes explicar las clausuras?', undefined, { language: 'es', enableCaching: false })
+
+      expect(result.pass0Result?.prefixId).toBe('pass0-puedes')
+    })
+  })
+
+  describe('Template Rules', () => {
+    test('should apply template rules before phrase and word rules', async () => {
+      const result = await engine.compress('How do I explain a machine learning model? Explain it.', undefined, { enableCaching: false })
+      const templateRule = result.rulesApplied.find(rule => rule.pass === 3)
+
+      expect(result.compressed).toBe('Explain machine learning model? Xpln it.')
+      expect(templateRule).toMatchObject({
+        id: 'h-how-do-i',
+        originalText: 'How do I explain a machine learning model',
+        compressedForm: 'explain machine learning model',
+        template: 'how do i {verb} a {noun+}',
+        startIndex: 0,
+        endIndex: 7
+      })
+      expect(result.passResults.templates.rulesApplied).toBe(1)
+      expect(db.incrementUsage).toHaveBeenCalledWith('how do i {verb} a {noun+}')
+    })
+
+    test('should decompress template output', async () => {
+      const result = await engine.compress('How do I explain a model?', undefined, { enableCaching: false })
+      const decompressed = await engine.decompress(result.compressed, result.rulesApplied)
+
+      expect(result.compressed).toBe('Explain model?')
+      expect(decompressed.decompressed).toBe('How do I explain a model?')
+    })
+
+    test('should drop the "?" a template added on decompression', async () => {
+      const input = 'So how do I explain a machine learning model. Then how do I explain a model'
+      const result = await engine.compress(input, undefined, { enableCaching: false })
+      const decompressed = await engine.decompress(result.compressed, result.rulesApplied)
+
+      expect(result.rulesApplied.filter(rule => rule.questionMarkAdded)).toHaveLength(2)
+      expect(decompressed.decompressed).toBe(input)
+    })
+  })
+
+  describe('Case Policy', () => {
+    const compressed = async (text: string) => (await engine.compress(text, undefined, { enableCaching: false })).compressed
+
+    test('should keep the casing of acronym rules', async () => {
+      expect(await compressed('machine learning rocks')).toBe('ML rocks')
+      expect(await compressed('Machine Learning rocks')).toBe('ML rocks')
+      expect(await compressed('by the way, MACHINE LEARNING')).toBe('BTW, ML')
+    })
+
+    test('should follow the source casing for lowercase rules', async () => {
+      expect(await compressed('Thank you. thank you. THANK YOU. Thank You')).toBe('Thx. thx. THX. Thx')
+      expect(await compressed('so Explain it')).toBe('so Xpln it')
+    })
+
+    test('should capitalize lowercase rules at a sentence start', async () => {
+      expect(await compressed('Explain it. Then explain it again')).toBe('Xpln it. Then xpln it again')
+    })
+
+    test('should leave CamelCase sources to the rule casing', async () => {
+      expect(await compressed('explain in JavaScript')).toBe('xpln in JS')
+      expect(await compressed('ExPlain it')).toBe('xpln it')
+    })
+
+    test('should apply per-rule case policies', async () => {
+      expect(await compressed('I like type script')).toBe('I like ts')
+      expect(await compressed('Type Script is fine')).toBe('Ts is fine')
+      expect(await compressed('reply as soon as possible')).toBe('reply ASAP')
+      expect(await compressed('JAVASCRIPT')).toBe('JS')
+    })
+  })
+
+  describe('Inflections', () => {
+    test('should match inflected words through rules that opted in', async () => {
+      const result = await engine.compress('She deployed it, then deploys and keeps deploying', undefined, { enableCaching: false })
+      const inflected = result.rulesApplied.filter(rule => rule.inflectedFrom === 'deploy')
+
+      expect(result.compressed).toBe('She dplyd it, then dplys and keeps dplyng')
+      expect(inflected.map(rule => [rule.originalText, rule.compressedForm])).toEqual([
+        ['deployed', 'dplyd'],
+        ['deploys', 'dplys'],
+        ['deploying', 'dplyng']
+      ])
+      expect(db.incrementUsage).toHaveBeenCalledWith('deploy')
+    })
+
+    test('should leave inflections of other rules alone', async () => {
+      const result = await engine.compress('It understands and explained', undefined, { enableCaching: false })
+
+      expect(result.compressed).toBe('It understands and explained')
+    })
+
+    test('should restore inflected words on decompression', async () => {
+      const result = await engine.compress('Deployed it', undefined, { enableCaching: false })
+      const decompressed = await engine.decompress(result.compressed, result.rulesApplied)
+
+      expect(decompressed.decompressed).toBe('Deployed it')
+    })
+  })
+
+  describe('Segmentation', () => {
+    const text = 'Run machine learning model evaluation'
+
+    test('should take the longest phrase first in greedy mode', async () => {
+      const result = await engine.compress(text, undefined, { enableCaching: false })
+
+      expect(result.compressed).toBe('Run machine lme')
+      expect(result.segmentation.mode).toBe('greedy')
+    })
+
+    test('should pick the highest-scoring set of phrases in optimal mode', async () => {
+      const greedy = await engine.compress(text, undefined, { enableCaching: false })
+      const optimal = await engine.compress(text, undefined, { enableCaching: false, segmentation: 'optimal' })
+
+      expect(optimal.compressed).toBe('Run ML model eval')
+      expect(optimal.segmentation).toEqual({ mode: 'optimal', score: 18 })
+      expect(greedy.segmentation.score).toBe(16.5)
+    })
+
+    test('should leave single words to Pass 2', async () => {
+      const text = 'Can you please explain machine learning for me?'
+      const greedy = await engine.compress(text, undefined, { enableCaching: false })
+      const optimal = await engine.compress(text, undefined, { enableCaching: false, segmentation: 'optimal' })
+
+      expect(optimal.compressed).toBe(greedy.compressed)
+      expect(optimal.rulesApplied.filter(rule => rule.pass === 2).map(rule => rule.originalText)).toEqual(['explain', 'for'])
+    })
+
+    test('should cache greedy and optimal results separately', async () => {
+      await engine.compress(text)
+      const optimal = await engine.compress(text, undefined, { segmentation: 'optimal' })
+
+      expect(optimal.fromCache).toBe(false)
+      expect(optimal.compressed).toBe('Run ML model eval')
+    })
+  })
+
+  describe('Explain Mode', () => {
+    const text = 'Explain machine learning model evaluation, a for loop and information on neural network design'
+    const explained = () => engine.compress(text, undefined, { enableCaching: false, explain: true })
+    const windows = (result: CompressionResult, index: number) => (result.trace as CompressionTrace).tokens[index].windows
+
+    test('should only trace when asked', async () => {
+      const result = await engine.compress(text, undefined, { enableCaching: false })
+
+      expect(result.trace).toBeUndefined()
+    })
+
+    test('should report the text after every pass', async () => {
+      const result = await explained()
+
+      expect(result.trace?.stages).toEqual({
+        pass0: text,
+        templates: text,
+        pass1: 'Explain machine lme, a for loop and information on neural network design',
+        pass2: 'Xpln machine lme, a for loop and information on neural network design'
+      })
+      expect(result.trace?.confidenceThreshold).toBe(0.7)
+    })
+
+    test('should trace applied rules and rules blocked by earlier ones', async () => {
+      const result = await explained()
+
+      expect(result.trace?.tokens[0]).toMatchObject({ word: 'Explain', output: 'Xpln' })
+      expect(windows(result, 0)).toContainEqual(expect.objectContaining({ pass: 2, outcome: 'applied', rule: expect.objectContaining({ compressedForm: 'xpln' }) }))
+      expect(windows(result, 1)).toContainEqual({
+        pass: 1,
+        size: 2,
+        words: 'machine learning',
+        outcome: 'already-processed',
+        rule: { id: undefined, originalText: 'machine learning', compressedForm: 'ML', confidence: 0.9 },
+        detail: 'taken by "learning model evaluation" → "lme"'
+      })
+      expect(result.trace?.tokens[3].output).toBe('')
+    })
+
+    test('should explain why matching rules were rejected', async () => {
+      const result = await explained()
+      const outcome = (index: number, pass: number) => windows(result, index)
+        .filter(window => window.pass === pass && window.outcome !== 'no-match')
+        .map(window => [window.words, window.outcome, window.detail])
+
+      expect(outcome(6, 2)).toEqual([['for', 'conditions', '{"notFollowedBy": ["loop"]}']])
+      expect(outcome(9, 2)).toEqual([['information', 'below-confidence', 'confidence 0.50 is below the 0.70 threshold']])
+      expect(outcome(11, 1)).toEqual([['neural network', 'word-count', 'word_count is 3 but the text has 2 words']])
+    })
+
+    test('should trace windows without any rule', async () => {
+      const result = await explained()
+
+      expect(windows(result, 13).map(window => [window.pass, window.size, window.outcome])).toEqual([[1, 1, 'no-match'], [2, 1, 'no-match']])
+    })
+
+    test('should mark outscored phrases in optimal mode', async () => {
+      const result = await engine.compress(text, undefined, { enableCaching: false, explain: true, segmentation: 'optimal' })
+
+      expect(windows(result, 2).filter(window => window.rule).map(window => [window.words, window.outcome])).toEqual([
+        ['learning model evaluation', 'outscored']
+      ])
+      expect(windows(result, 3).filter(window => window.rule).map(window => [window.words, window.outcome])).toEqual([
+        ['model evaluation', 'applied']
+      ])
+    })
+  })
+
+  describe('Segments', () => {
+    const segmentsOf = async (text: string) => {
+      const result = await engine.compress(text, undefined, { enableCaching: false })
+
+      // Segments cover the input and the output exactly, in order
+      expect(result.segments.map(segment => segment.original).join('')).toBe(result.original)
+      expect(result.segments.map(segment => segment.compressed).join('')).toBe(result.compressed)
+      result.segments.forEach(segment => expect(result.original.slice(segment.start, segment.end)).toBe(segment.original))
+      return result.segments
+    }
+
+    test('should map replaced spans and removed prefixes to input offsets', async () => {
+      const segments = await segmentsOf('Can you please explain machine learning')
+
+      expect(segments.map(segment => [segment.type, segment.original, segment.compressed, segment.start, segment.pass])).toEqual([
+        ['removed', 'Can you please ', '', 0, 0],
+        ['replaced', 'explain', 'xpln', 15, 2],
+        ['unchanged', ' ', ' ', 22, undefined],
+        ['replaced', 'machine learning', 'ML', 23, 1],
+        ['replaced', '', '?', 39, 0]
+      ])
+      expect(segments[0].removal).toBe('prefix')
+      expect(segments[4].ruleId).toBe(segments[0].ruleId)
+    })
+
+    test('should keep unchanged text and punctuation together', async () => {
+      const segments = await segmentsOf('by the way, MACHINE LEARNING rocks.')
+
+      expect(segments.map(segment => [segment.type, segment.original, segment.compressed])).toEqual([
+        ['replaced', 'by the way,', 'BTW,'],
+        ['unchanged', ' ', ' '],
+        ['replaced', 'MACHINE LEARNING', 'ML'],
+        ['unchanged', ' rocks.', ' rocks.']
+      ])
+    })
+
+    test('should cover fillers, sign-offs and surrounding whitespace', async () => {
+      const segments = await segmentsOf('  Hi team,\n\nCould you explain this?  Thanks a lot!\n\nBest,\nJane  ')
+
+      expect(segments.filter(segment => segment.type === 'removed').map(segment => segment.removal)).toEqual([
+        'pleasantry', 'prefix', 'pleasantry', 'sign_off'
+      ])
+      expect(segments[0].original).toBe('  Hi team,\n\n')
+      expect(segments[segments.length - 1].original).toBe('Best,\nJane  ')
+      expect(segments.filter(segment => segment.type !== 'removed').map(segment => segment.compressed).join('')).toBe('xpln this?')
+    })
+
+    test('should map template output and protected regions', async () => {
+      await segmentsOf('How do I explain a model? Then explain `machine learning` at https://example.com/a.b')
+      await segmentsOf('Explain it.\n\n```\nexplain()\n```\n\nThank you')
+    })
+  })
+
+  describe('Budget Mode', () => {
+    const text = 'Explain machine learning information'
+    const budgeted = (options: { targetLength?: number; targetTokens?: number }) =>
+      engine.compress(text, undefined, { enableCaching: false, ...options })
+
+    test('should leave text that already fits alone', async () => {
+      const result = await budgeted({ targetLength: 100 })
+
+      expect(result.compressed).toBe(text)
+      expect(result.rulesApplied).toHaveLength(0)
+      expect(result.budget).toEqual({ targetLength: 100, targetTokens: undefined, met: true, confidenceFloor: null, aggressive: false })
+    })
+
+    test('should stop at the most trusted rules that fit', async () => {
+      const result = await budgeted({ targetLength: 30 })
+
+      expect(result.compressed).toBe('Explain ML information')
+      expect(result.rulesApplied.map(rule => rule.originalText)).toEqual(['machine learning'])
+      expect(result.budget).toMatchObject({ met: true, confidenceFloor: 0.9, aggressive: false })
+      expect(result.confidenceThreshold).toBe(0.9)
+      // Trial runs count no usage
+      expect(db.incrementUsage).toHaveBeenCalledTimes(1)
+    })
+
+    test('should drop into the aggressive band only when needed', async () => {
+      const result = await budgeted({ targetLength: 15 })
+
+      expect(result.compressed).toBe('Xpln ML info')
+      expect(result.budget).toMatchObject({ met: true, confidenceFloor: 0.5, aggressive: true })
+    })
+
+    test('should report a budget it could not meet', async () => {
+      const result = await budgeted({ targetLength: 5 })
+
+      expect(result.compressed).toBe('Xpln ML info')
+      expect(result.budget).toMatchObject({ met: false, confidenceFloor: 0.4, aggressive: true })
+    })
+
+    test('should not cache matchers for budget floors', async () => {
+      await engine.compress(text, undefined, { enableCaching: false })
+      const cached = engine['matchersByMode'].size
+      await budgeted({ targetLength: 15 })
+
+      expect(engine['matchersByMode'].size).toBe(cached)
+    })
+
+    test('should count LLM tokens for a token budget', async () => {
+      const full = await engine.compress(text, undefined, { enableCaching: false, confidenceMode: 'aggressive' })
+      const result = await budgeted({ targetTokens: full.tokenStats.compressedTokens })
+
+      expect(result.budget?.met).toBe(true)
+      expect(result.tokenStats.compressedTokens).toBeLessThanOrEqual(full.tokenStats.compressedTokens)
+    })
+  })
+
+  describe('Pass Pipeline', () => {
+    const text = 'Can you please explain machine learning'
+    let registry: PassRegistry
+    let pipelineEngine: ThreePassCompressionEngine
+
+    // Drops ticket keys like "PROJ-42:" - boilerplate no rule in the database covers
+    const ticketKeys = {
+      id: 'ticket-keys',
+      run: (context: PassContext) => {
+        let rulesApplied = 0
+        context.tokens.forEach((token, index) => {
+          if (/^[A-Z]+-\d+:?$/.test(token.original) && context.remove(index, 1, { id: 'ticket-key' })) rulesApplied++
+        })
+        return { tokensProcessed: rulesApplied, rulesApplied, processingTime: 0 }
+      }
+    }
+
+    // Spells "machine learning" as "M.L." when it gets there before Pass 1
+    const dottedAcronyms = {
+      id: 'dotted-acronyms',
+      run: (context: PassContext) => {
+        const start = context.tokens.findIndex((token, index) =>
+          token.text.toLowerCase() === 'machine' && (context.tokens[index + 1] || { text: '' }).text.toLowerCase() === 'learning')
+        const applied = start !== -1 && context.replace(start, 2, 'M.L.', { id: 'dotted-ml', casePolicy: 'preserve' })
+        return { tokensProcessed: applied ? 2 : 0, rulesApplied: applied ? 1 : 0, processingTime: 0 }
+      }
+    }
+
+    beforeEach(() => {
+      registry = new PassRegistry()
+      pipelineEngine = new ThreePassCompressionEngine(undefined, undefined, undefined, registry)
+    })
+
+    test('should run and report the built-in passes by default', async () => {
+      const result = await pipelineEngine.compress(text, undefined, { enableCaching: false })
+
+      expect(result.compressed).toBe('xpln ML?')
+      expect(result.pipeline).toEqual(['pass0', 'templates', 'pass1', 'pass2'])
+      expect(Object.keys(result.passResults)).toEqual(['pass0', 'templates', 'pass1', 'pass2'])
+    })
+
+    test('should leave out disabled passes and report zeros for them', async () => {
+      const result = await pipelineEngine.compress(text, undefined, { enableCaching: false, disablePasses: ['pass0', 'pass2'] })
+
+      expect(result.compressed).toBe('Can you please explain ML')
+      expect(result.pipeline).toEqual(['templates', 'pass1'])
+      expect(result.passResults.pass0.rulesApplied).toBe(0)
+      expect(result.passResults.pass2).toEqual({ tokensProcessed: 0, rulesApplied: 0, processingTime: 0 })
+      expect(result.segments.map(segment => segment.original).join('')).toBe(text)
+    })
+
+    test('should run registered passes in pipeline order', async () => {
+      registry.register(dottedAcronyms, { before: 'pass1' })
+
+      const first = await pipelineEngine.compress(text, undefined, { enableCaching: false })
+      expect(first.compressed).toBe('xpln M.L.?')
+      expect(first.passResults['dotted-acronyms'].rulesApplied).toBe(1)
+      expect(first.rulesApplied.find(rule => rule.id === 'dotted-ml')).toMatchObject({ pass: 4, passId: 'dotted-acronyms' })
+
+      const reordered = await pipelineEngine.compress(text, undefined, {
+        enableCaching: false,
+        passes: ['pass0', 'pass1', 'dotted-acronyms', 'pass2']
+      })
+      expect(reordered.compressed).toBe('xpln ML?')
+      expect(reordered.passResults['dotted-acronyms'].rulesApplied).toBe(0)
+    })
+
+    test('should drop words a registered pass removes and put them back on decompression', async () => {
+      registry.register(ticketKeys)
+      const input = 'PROJ-42: explain machine learning'
+      const result = await pipelineEngine.compress(input, undefined, { enableCaching: false, explain: true })
+
+      expect(result.compressed).toBe('xpln ML')
+      expect(result.passResults['ticket-keys'].rulesApplied).toBe(1)
+      expect(result.trace?.stages['ticket-keys']).toBe('xpln ML')
+      expect(result.segments.map(segment => [segment.type, segment.original, segment.compressed])).toEqual([
+        ['removed', 'PROJ-42: ', ''],
+        ['replaced', 'explain', 'xpln'],
+        ['unchanged', ' ', ' '],
+        ['replaced', 'machine learning', 'ML']
+      ])
+      expect(db.incrementUsage).not.toHaveBeenCalledWith('PROJ-42:')
+
+      const decompressed = await pipelineEngine.decompress(result.compressed, result.rulesApplied)
+      expect(decompressed.decompressed).toBe(input)
+    })
+
+    test('should use named pipelines and keep them apart in the cache', async () => {
+      registry.register(ticketKeys)
+      registry.definePipeline('tickets', ['ticket-keys', 'pass2'])
+
+      const tickets = await pipelineEngine.compress('PROJ-7 explain machine learning', undefined, { passProfile: 'tickets' })
+      const full = await pipelineEngine.compress('PROJ-7 explain machine learning')
+
+      expect(tickets.compressed).toBe('xpln machine learning')
+      expect(full.fromCache).toBe(false)
+      expect(full.compressed).toBe('xpln ML')
+    })
+
+    test('should reject pipelines it cannot run', async () => {
+      await expect(pipelineEngine.compress(text, undefined, { passes: ['pass1', 'pass0'] }))
+        .rejects.toThrow('Invalid pass pipeline: pass0 works on the raw text and must run first')
+      await expect(pipelineEngine.compress(text, undefined, { disablePasses: ['spelling'] }))
+        .rejects.toThrow('Invalid pass pipeline: unknown pass spelling')
+    })
+  })
+
+  describe('Elision', () => {
+    const text = 'Can you please explain the machine learning model to me'
+
+    test('should drop articles only when the elision pass is enabled', async () => {
+      const plain = await engine.compress(text, undefined, { enableCaching: false })
+      const elided = await engine.compress(text, undefined, { enableCaching: false, enablePasses: ['elision'] })
+
+      expect(plain.compressed).toBe('xpln the ML model to me?')
+      expect(plain.pipeline).not.toContain('elision')
+      expect(elided.compressed).toBe('xpln ML model to me?')
+      expect(elided.passResults.elision.rulesApplied).toBe(1)
+      expect(elided.rulesApplied.find(rule => rule.passId === 'elision')).toMatchObject({ id: 'elision-the', originalText: 'the' })
+      expect(elided.segments.map(segment => segment.compressed).join('')).toBe(elided.compressed)
+      expect(elided.segments.find(segment => segment.ruleId === 'elision-the')).toMatchObject({ type: 'removed', original: ' the' })
+    })
+
+    test('should keep every word in conservative mode', async () => {
+      const result = await engine.compress(text, undefined, { enableCaching: false, enablePasses: ['elision'], confidenceMode: 'conservative' })
+
+      expect(result.compressed).toBe('explain the ML model to me?')
+      expect(result.passResults.elision.rulesApplied).toBe(0)
+    })
+  })
+
+  describe('Rule Conditions', () => {
+    test('should only apply a rule where its conditions hold', async () => {
+      const result = await engine.compress('Explain a for loop for me', undefined, { enableCaching: false })
+
+      expect(result.compressed).toBe('Xpln a for loop 4 me')
+      expect(result.rulesApplied.filter(rule => rule.originalText === 'for').map(rule => rule.startIndex)).toEqual([4])
+    })
+  })
+
+  describe('Languages', () => {
+    test('should detect the language and use its rules only', async () => {
+      const result = await engine.compress('Bitte erkläre die Funktion und explain it', undefined, { enableCaching: false })
+
+      expect(result.language).toMatchObject({ language: 'de', detected: true })
+      expect(result.compressed).toBe('erkl die Funktion und explain it?')
+      expect(result.rulesApplied.find(rule => rule.pass === 0)?.id).toBe('h-bitte')
+    })
+
+    test('should use the requested language', async () => {
+      const result = await engine.compress('Bitte erkläre es', undefined, { language: 'en', enableCaching: false })
+
+      expect(result.language).toEqual({ language: 'en', confidence: 1, detected: false })
+      expect(result.compressed).toBe('Bitte erkläre es')
+    })
+  })
+
+  describe('Streaming Compression', () => {
+    const collect = async (text: string, chunkChars: number) => {
+      const chunks: StreamChunkResult[] = []
+      const summary = await engine.compressStream(text, 'sess_stream', {}, chunk => {
+        chunks.push(chunk)
+      }, chunkChars)
+      return { chunks, summary, output: chunks.map(chunk => chunk.compressed).join('') }
+    }
+
+    test('should match one-shot compression when streamed in chunks', async () => {
+      const text = Array(12).fill('Please explain machine learning to me.\n\nThen understand it, by the way.').join(' ')
+      const { chunks, summary, output } = await collect(text, 200)
+      const oneShot = await engine.compress(text, undefined, { enableCaching: false })
+
+      expect(chunks.length).toBeGreaterThan(1)
+      expect(output).toBe(oneShot.compressed)
+      expect(summary.chunks).toBe(chunks.length)
+      expect(summary.compressedLength).toBe(output.length)
+    })
+
+    test('should match phrases that span a chunk boundary', async () => {
+      // No sentence or paragraph breaks - chunks are forced to end mid-phrase
+      const text = Array(30).fill('we like machine learning a lot').join(' ')
+      const { chunks, output } = await collect(text, 100)
+
+      expect(chunks.length).toBeGreaterThan(1)
+      expect(output).toBe(Array(30).fill('we like ML a lot').join(' '))
+    })
+
+    test('should report document-wide rule positions', async () => {
+      const text = Array(20).fill('explain machine learning now.').join(' ')
+      const { chunks } = await collect(text, 60)
+      const rules = chunks.reduce((all: AppliedRule[], chunk) => all.concat(chunk.rulesApplied), [])
+
+      expect(rules.filter(rule => rule.pass === 2).map(rule => rule.startIndex))
+        .toEqual(Array.from({ length: 20 }, (_, i) => i * 4))
+    })
+  })
+
+  describe('Rule Sets', () => {
+    test('should layer overrides and exclusions over the global rules', async () => {
+      const result = await engine.compress('explain the acme platform and understand machine learning', undefined, { ruleSet: 'team-set' })
+
+      expect(result.compressed).toBe('expl the AP and understand ML')
+      expect(result.ruleSet).toEqual({ id: 'team-set', name: 'Team', version: expect.any(Number) })
+      expect(result.rulesApplied.filter(rule => rule.ruleSetId === 'team-set').map(rule => rule.originalText).sort())
+        .toEqual(['acme platform', 'explain'])
+    })
+
+    test('should leave compressions without a rule set untouched', async () => {
+      await engine.compress('explain the acme platform', undefined, { ruleSet: 'team-set' })
+      const result = await engine.compress('explain the acme platform and understand it')
+
+      expect(result.compressed).toBe('xpln the acme platform and undrst it')
+      expect(result.ruleSet).toBeUndefined()
+    })
+
+    test('should not count rule set entries as global usage', async () => {
+      await engine.compress('explain the acme platform', undefined, { ruleSet: 'team-set', enableCaching: false })
+
+      expect(db.incrementUsage).not.toHaveBeenCalled()
+    })
+
+    test('should reject unknown rule sets', async () => {
+      await expect(engine.compress('explain it', undefined, { ruleSet: 'missing' })).rejects.toThrow('Rule set not found')
+    })
+  })
+
+  describe('Whitespace Preservation', () => {
+    test('should keep line breaks, indentation and bullet markers', async () => {
+      const input = '# Notes\n\n- explain this\n    - understand that\n\nDone.'
+      const result = await engine.compress(input)
+
+      expect(result.compressed).toBe('# Notes\n\n- xpln this\n    - undrst that\n\nDone.')
+    })
+
+    test('should collapse whitespace only inside a compressed phrase', async () => {
+      const result = await engine.compress('use machine \t learning,\tthen rest')
+
+      expect(result.compressed).toBe('use ML,\tthen rest')
+    })
+
+    test('should not match a phrase across a line break', async () => {
+      const result = await engine.compress('Please explain   machine\n learning   quickly')
+
+      expect(result.compressed).toBe('xpln   machine\n learning   quickly?')
+      expect(result.rulesApplied.some(rule => rule.pass === 1)).toBe(false)
+    })
+
+    test('should keep the closing punctuation of a compressed phrase attached', async () => {
+      const result = await engine.compress('What is machine learning?')
+
+      expect(result.compressed).toBe('What is ML?')
+    })
+
+    test('should restore whitespace when decompressing', async () => {
+      const input = 'explain machine learning\n\n  then understand it'
+      const compressed = await engine.compress(input)
+      const result = await engine.decompress(compressed.compressed, compressed.rulesApplied)
+
+      expect(compressed.compressed).toBe('xpln ML\n\n  then undrst it')
+      expect(result.decompressed).toBe(input)
+    })
+  })
+
+  describe('Protected Regions', () => {
+    test('should leave fenced code blocks byte-for-byte intact', async () => {
+      const code = '```js\nfunction explain(machine  learning) {\n  return understand\n}\n```'
+      const result = await engine.compress(`Please explain machine learning here:\n${code}\nthen understand it`)
+
+      expect(result.compressed).toContain(code)
+      expect(result.compressed).toMatch(/^xpln ml here:/i)
+      expect(result.compressed).toMatch(/undrst it\?$/)
+    })
+
+    test('should not compress inside inline code', async () => {
+      const result = await engine.compress('Explain `explain(machine learning)` to me')
+
+      expect(result.compressed).toBe('Xpln `explain(machine learning)` to me')
+    })
+
+    test('should keep URLs and file paths unchanged', async () => {
+      const result = await engine.compress('Explain https://Example.com/Machine/Learning and src/Explain.ts')
+
+      expect(result.compressed).toBe('Xpln https://Example.com/Machine/Learning and src/Explain.ts')
+    })
+
+    test('should not let phrases span a protected region', async () => {
+      const result = await engine.compress('machine `x` learning')
+
+      expect(result.compressed).toBe('machine `x` learning')
+      expect(result.rulesApplied).toHaveLength(0)
+    })
+
+    test('should not append a question mark onto trailing code', async () => {
+      const result = await engine.compress('Can you explain `Array.from`')
+
+      expect(result.compressed).toBe('xpln `Array.from`')
+    })
   })
 
   describe('Session Tracking', () => {
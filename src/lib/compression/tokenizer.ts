@@ -0,0 +1,52 @@
+/**
+ * LLM Token Counting
+ * Compression is only worth it if it saves model tokens - abbreviations like
+ * "xpln" often cost more BPE tokens than the word they replace. The default
+ * tokenizer uses the bundled cl100k_base vocabulary (GPT-3.5/GPT-4); any
+ * other tokenizer can be plugged in through the Tokenizer interface.
+ */
+
+import { countTokens } from 'gpt-tokenizer'
+
+export interface Tokenizer {
+  name: string
+  countTokens(text: string): number
+}
+
+export interface TokenStats {
+  tokenizer: string
+  originalTokens: number
+  compressedTokens: number
+  tokenSavings: number
+  tokenSavingsRatio: number // percentage of original tokens saved
+}
+
+export const bpeTokenizer: Tokenizer = {
+  name: 'cl100k_base',
+  countTokens: (text: string) => (text ? countTokens(text) : 0)
+}
+
+/**
+ * Token cost of a rule side as it appears mid-sentence
+ * BPE vocabularies fold the preceding space into the word token
+ */
+export function inlineTokenCost(tokenizer: Tokenizer, text: string): number {
+  return text ? tokenizer.countTokens(` ${text}`) : 0
+}
+
+/**
+ * Build token statistics for an original/compressed pair
+ */
+export function calculateTokenStats(tokenizer: Tokenizer, original: string, compressed: string): TokenStats {
+  const originalTokens = tokenizer.countTokens(original)
+  const compressedTokens = tokenizer.countTokens(compressed)
+  const tokenSavings = originalTokens - compressedTokens
+
+  return {
+    tokenizer: tokenizer.name,
+    originalTokens,
+    compressedTokens,
+    tokenSavings,
+    tokenSavingsRatio: originalTokens > 0 ? Math.round((tokenSavings / originalTokens) * 100) : 0
+  }
+}
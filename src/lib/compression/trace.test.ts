@@ -0,0 +1,67 @@
+/**
+ * Test Suite for the Compression Trace
+ */
+
+import { CompressionTracer } from './trace'
+import { extractCleanWords } from '../text-utils'
+import { CompressionPattern } from '../supabase'
+
+function pattern(original: string, confidence: number, wordCount?: number): CompressionPattern {
+  return {
+    original_text: original,
+    compressed_form: original.split(' ').map(word => word[0]).join(''),
+    text_hash: `h-${original}`,
+    compression_type: 'phrase',
+    usage_count: 0,
+    word_count: wordCount ?? original.split(' ').length,
+    confidence_score: confidence
+  }
+}
+
+describe('Compression Trace', () => {
+  const tracer = () => new CompressionTracer(extractCleanWords('Deep neural network, please.'), 0.7)
+
+  test('should classify why a window found no usable rule', () => {
+    const trace = tracer()
+    trace.miss(1, 0, 2, 'deep neural', null)
+    trace.miss(1, 1, 2, 'neural network', pattern('neural network', 0.5))
+    trace.miss(1, 1, 2, 'neural network', pattern('neural network', 0.9, 3))
+    trace.miss(2, 1, 1, 'neural', pattern('neural', 0.9, 3))
+
+    const [first, second] = trace.finish([]).tokens
+    expect(first.windows.map(window => window.outcome)).toEqual(['no-match'])
+    expect(second.windows.map(window => [window.outcome, window.detail])).toEqual([
+      ['below-confidence', 'confidence 0.50 is below the 0.70 threshold'],
+      ['word-count', 'word_count is 3 but the text has 2 words'],
+      ['no-match', undefined]
+    ])
+  })
+
+  test('should report the rule behind a window', () => {
+    const trace = tracer()
+    trace.window(1, 1, 2, 'neural network', 'applied', pattern('neural network', 0.9))
+
+    expect(trace.finish([]).tokens[1].windows[0].rule).toEqual({
+      id: 'h-neural network',
+      originalText: 'neural network',
+      compressedForm: 'nn',
+      confidence: 0.9
+    })
+  })
+
+  test('should finish with stages and what every word became', () => {
+    const trace = tracer()
+    trace.stage('pass0', 'Deep neural network, please.')
+    trace.stage('pass1', 'Deep nn, please.')
+
+    const result = trace.finish(['Deep', 'nn', '', 'please.'])
+    expect(result.stages.pass1).toBe('Deep nn, please.')
+    expect(result.stages.pass2).toBe('')
+    expect(result.tokens.map(token => [token.word, token.output])).toEqual([
+      ['Deep', 'Deep'],
+      ['neural', 'nn'],
+      ['network,', ''],
+      ['please.', 'please.']
+    ])
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Compression Trace
+ * Explain mode: every window Pass 1 and Pass 2 tried, the rule it matched and why a
+ * matching rule was not applied, plus the text after each pass - so "why didn't this
+ * phrase compress?" can be answered from the response instead of the server logs.
+ */
+
+import type { CompressionPattern } from '../supabase'
+import type { CleanWord } from '../text-utils'
+
+export type TraceOutcome =
+  | 'applied'             // The rule replaced the window
+  | 'no-match'            // No rule for these words
+  | 'already-processed'   // A rule matched, but an earlier rule had taken some of the words
+  | 'below-confidence'    // A rule exists, trusted less than the confidence mode requires
+  | 'word-count'          // A phrase rule whose word_count disagrees with its text - never indexed
+  | 'conditions'          // The rule's neighbor or sentence-position conditions don't hold here
+  | 'token-cost'          // Token-aware mode: the compressed form costs more LLM tokens
+  | 'outscored'           // Optimal segmentation picked other rules for these words
+
+export type TraceStage = 'pass0' | 'templates' | 'pass1' | 'pass2'
+
+export interface TracedRule {
+  id: string
+  originalText: string
+  compressedForm: string
+  confidence: number
+}
+
+export interface WindowTrace {
+  pass: number            // 1 (phrases) or 2 (words)
+  size: number            // Words in the window
+  words: string           // Lowercased words tried
+  outcome: TraceOutcome
+  rule?: TracedRule       // Rule that matched the window, applied or not
+  detail?: string         // Why a matching rule was rejected
+}
+
+export interface TokenTrace {
+  index: number
+  word: string            // Word as written after Pass 0
+  output: string          // What the word became - empty when folded into the phrase before it
+  windows: WindowTrace[]  // Windows starting at this word, in the order they were tried
+}
+
+export interface CompressionTrace {
+  confidenceThreshold: number
+  stages: Record<TraceStage, string> & Record<string, string>   // Text after each pass, registered ones included
+  tokens: TokenTrace[]
+}
+
+/**
+ * Collects the trace of one compression
+ */
+export class CompressionTracer {
+  private readonly tokens: TokenTrace[]
+  private readonly stages: Record<TraceStage, string> & Record<string, string> = { pass0: '', templates: '', pass1: '', pass2: '' }
+
+  constructor(words: CleanWord[], private readonly threshold: number) {
+    this.tokens = words.map((word, index) => ({ index, word: word.original, output: word.original, windows: [] }))
+  }
+
+  /**
+   * Record a window and what became of it
+   */
+  window(pass: number, start: number, size: number, words: string, outcome: TraceOutcome, pattern?: CompressionPattern, detail?: string) {
+    const trace = this.tokens[start]
+    if (!trace) return
+    trace.windows.push({ pass, size, words, outcome, rule: pattern ? tracedRule(pattern) : undefined, detail })
+  }
+
+  /**
+   * Record a window no usable rule matched - `candidate` is the rule it matches once
+   * confidence and word_count are ignored, if any
+   */
+  miss(pass: number, start: number, size: number, words: string, candidate?: CompressionPattern | null) {
+    if (!candidate) {
+      this.window(pass, start, size, words, 'no-match')
+      return
+    }
+
+    const confidence = candidate.confidence_score ?? 0.7
+    const wordCount = candidate.original_text.trim().split(/\s+/).length
+    if (confidence < this.threshold) {
+      this.window(pass, start, size, words, 'below-confidence', candidate,
+        `confidence ${confidence.toFixed(2)} is below the ${this.threshold.toFixed(2)} threshold`)
+    } else if (pass === 1 && candidate.word_count !== wordCount) {
+      this.window(pass, start, size, words, 'word-count', candidate,
+        `word_count is ${candidate.word_count} but the text has ${wordCount} words`)
+    } else {
+      this.window(pass, start, size, words, 'no-match')
+    }
+  }
+
+  /**
+   * Record the text after a pass
+   */
+  stage(stage: TraceStage | string, text: string) {
+    this.stages[stage] = text
+  }
+
+  /**
+   * Finish the trace with what every word became
+   */
+  finish(outputs: string[]): CompressionTrace {
+    outputs.forEach((output, index) => {
+      if (this.tokens[index]) this.tokens[index].output = output
+    })
+    return { confidenceThreshold: this.threshold, stages: { ...this.stages }, tokens: this.tokens }
+  }
+}
+
+/**
+ * The fields of a rule a trace reports
+ */
+function tracedRule(pattern: CompressionPattern): TracedRule {
+  return {
+    id: pattern.text_hash,
+    originalText: pattern.original_text,
+    compressedForm: pattern.compressed_form,
+    confidence: pattern.confidence_score ?? 0.7
+  }
+}
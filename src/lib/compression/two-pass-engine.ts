@@ -1,10 +1,41 @@
 import { db, CompressionPattern } from '../supabase'
 import { smartMissTracker } from '../smart-miss-tracker'
-import { extractCleanWords, reassembleText, CleanWord } from '../text-utils'
-import { questionPrefixProcessor, Pass0Result } from './pass-zero'
+import { extractCleanWords, reassembleText, splitIntoChunks, endsSentence, CleanWord } from '../text-utils'
+import { questionPrefixProcessor, buildQuestionPrefixes, FillerKind, Pass0Result, QuestionPrefix } from './pass-zero'
+import { PhraseMatcher } from './phrase-matcher'
+import { conditionsMet } from './rule-conditions'
+import { baseForms, inflectCompressed } from './inflection'
+import { applyCasePolicy } from './case-policy'
+import { SegmentationMode, SegmentCandidate, optimalSegments, segmentScore } from './segmentation'
+import { CompressionTrace, CompressionTracer } from './trace'
+import { CompressionSegment, OutputPiece, buildSegments } from './segments'
+import { PassContext, PassRegistry, PassRule, CUSTOM_PASS_PRIORITY, passRegistry } from './pass-pipeline'
+import { TemplateRule, TemplateMatch, TEMPLATE_PASS_PRIORITY, compileTemplateRule, isTemplateRuleType, nextTemplateMatch } from './template-rules'
+import { PatternSnapshotCache, patternSnapshotCache } from './pattern-snapshot'
+import { LRUCache, LRUCacheOptions, LRUCacheStats } from './result-cache'
+import { CONFIDENCE_THRESHOLDS, thresholdForMode, ConfidenceMode } from '../confidence-thresholds'
+import { RuleSetCache, RuleSetLayer, ruleSetCache, layerPatterns } from './rule-sets'
+import { Tokenizer, TokenStats, bpeTokenizer, inlineTokenCost, calculateTokenStats } from './tokenizer'
+import { Language, LanguageDetection, DEFAULT_LANGUAGE, resolveLanguage } from '../language'
 import CryptoJS from 'crypto-js'
 
 // Types for compression processing
+export interface CompressionOptions {
+  confidenceMode?: ConfidenceMode   // default 'default' - selects the minimum rule confidence
+  enableCaching?: boolean           // default true - set false to bypass the result cache
+  tokenAware?: boolean              // skip rules whose compressed form costs more LLM tokens
+  ruleSet?: string                  // id of a rule set layered over the global rules
+  language?: Language | 'auto'      // default 'auto' - detect the language of the text
+  segmentation?: SegmentationMode   // default 'greedy' - 'optimal' picks the best-scoring set of phrase matches
+  explain?: boolean                 // return a per-word trace of the rules Pass 1 and Pass 2 considered
+  targetLength?: number             // budget mode - apply the fewest, most trusted rules that fit this many characters
+  targetTokens?: number             // budget mode - ... that fit this many LLM tokens
+  passes?: string[]                 // passes to run, in order - default the pipeline's
+  passProfile?: string              // named pass pipeline - default 'default'
+  disablePasses?: string[]          // passes left out
+  enablePasses?: string[]           // opt-in passes to run, e.g. 'elision'
+}
+
 export interface CompressionResult {
   original: string
   compressed: string
@@ -12,14 +43,92 @@ export interface CompressionResult {
   processingTime: number
   rulesApplied: AppliedRule[]
   fromCache: boolean
+  confidenceMode: ConfidenceMode
+  confidenceThreshold: number
+  ruleSet?: { id: string; name: string; version: number } // Rule set layered over the global rules
+  language: LanguageDetection      // Language whose rules and prefixes were used
+  segmentation: {
+    mode: SegmentationMode
+    score: number          // Σ saved characters (LLM tokens when token-aware) × confidence over Pass 1 and 2 rules
+  }
+  tokenStats: TokenStats & {
+    rulesSkipped: number   // rules skipped in token-aware mode for costing extra tokens
+  }
+  pipeline: string[]        // Passes run, in order
   passResults: {
     pass0: PassResult
+    templates: PassResult   // Template and regex rules, run between Pass 0 and Pass 1
     pass1: PassResult
     pass2: PassResult
+    [pass: string]: PassResult   // Registered passes - built-in passes left out report zeros
   }
+  segments: CompressionSegment[]   // Unchanged, replaced and removed spans in input order, for diffs
   pass0Result?: Pass0Result
+  trace?: CompressionTrace   // Explain mode only
+  budget?: BudgetResult      // Budget mode only
+}
+
+export interface BudgetResult {
+  targetLength?: number
+  targetTokens?: number
+  met: boolean                      // The output fits every target given
+  confidenceFloor: number | null    // Lowest rule confidence allowed - null when the text fit as written
+  aggressive: boolean               // Rules below the default threshold were needed
+}
+
+export interface BatchCompressionItem {
+  id: string
+  text: string
 }
 
+export interface BatchItemResult {
+  id: string
+  success: boolean
+  result?: CompressionResult
+  error?: string
+}
+
+export interface BatchCompressionResult {
+  results: BatchItemResult[]
+  stats: {
+    totalItems: number
+    succeeded: number
+    failed: number
+    cacheHits: number
+    totalRulesApplied: number
+    originalLength: number
+    compressedLength: number
+    compressionRatio: number
+    processingTime: number
+  }
+  patternVersion: number
+}
+
+export interface StreamChunkResult {
+  index: number
+  compressed: string            // Starts with the whitespace separating it from the previous chunk
+  rulesApplied: AppliedRule[]   // startIndex/endIndex are token positions in the whole document
+  originalLength: number
+  processingTime: number
+}
+
+export interface StreamCompressionSummary {
+  chunks: number
+  originalLength: number
+  compressedLength: number
+  compressionRatio: number
+  totalRulesApplied: number
+  processingTime: number
+  confidenceMode: ConfidenceMode
+  confidenceThreshold: number
+  ruleSet?: { id: string; name: string; version: number }
+  language: LanguageDetection
+  tokenStats: TokenStats
+  pass0Result: Pass0Result
+}
+
+export type StreamChunkHandler = (chunk: StreamChunkResult) => void | Promise<void>
+
 export interface AppliedRule {
   id: string
   originalText: string
@@ -28,12 +137,58 @@ export interface AppliedRule {
   confidence: number
   startIndex: number
   endIndex: number
+  tokenSavings?: number   // LLM tokens saved by this rule (negative when it costs tokens)
+  ruleSetId?: string      // Set when the rule came from a rule set rather than the global table
+  template?: string       // Template or regex the rule was generated from (template pass only)
+  inflectedFrom?: string  // Base word of the rule an inflected word matched through ("explain" for "explained")
+  passId?: string         // Registered pass that applied the rule - not a database rule
+  filler?: FillerKind     // Pass 0 filler removal - a built-in pattern, not a database rule
+  questionMarkAdded?: boolean  // Template pass ended the sentence in a "?" it didn't have
+  separator?: string      // Pass 0: whitespace between the removal and the text it goes back next to
+}
+
+export interface DecompressionResult {
+  compressed: string
+  decompressed: string
+  rulesReversed: AppliedRule[]
+  unresolvedTokens: string[]
+  usedRuleIndices: boolean   // true when AppliedRule start/end indices drove the expansion
+  processingTime: number
 }
 
 export interface PassResult {
   tokensProcessed: number
   rulesApplied: number
   processingTime: number
+  rulesSkipped?: number
+}
+
+interface PatternMatchers {
+  prefixes?: QuestionPrefix[]  // Undefined when the database has no Pass 0 rows for the language - the built-in list applies
+  templates: TemplateRule[]
+  phrase: PhraseMatcher
+  word: PhraseMatcher
+}
+
+// Settings of one compression run, resolved from the request options
+interface CompressionRun {
+  confidenceMode: ConfidenceMode
+  threshold: number             // Minimum rule confidence - the mode's, or a budget level
+  tokenAware: boolean
+  segmentation: SegmentationMode
+  explain: boolean
+  layer: RuleSetLayer | null
+  language: LanguageDetection
+  sessionId?: string
+  dryRun?: boolean              // Budget trials - no miss tracking, no usage counts
+  pipeline: string[]            // Passes to run, in order
+}
+
+// Explain mode: the trace plus matchers that find rules the confidence mode left out
+interface Explainer {
+  tracer: CompressionTracer
+  phrase: PhraseMatcher   // Every phrase rule of the language - confidence and word_count unchecked
+  word: PhraseMatcher     // Every word rule of the language - confidence unchecked
 }
 
 export interface Token {
@@ -43,23 +198,274 @@ export interface Token {
   processed: boolean
   originalIndex: number
   cleanWord: CleanWord      // Full punctuation info
+  removed?: boolean         // Dropped by a registered pass - no output
+}
+
+// Result cache bounds - entries also expire so rule edits elsewhere age out
+const DEFAULT_RESULT_CACHE: LRUCacheOptions = {
+  maxEntries: 1000,
+  ttlMs: 10 * 60 * 1000
+}
+
+// Characters compressed per streamed chunk
+export const DEFAULT_STREAM_CHUNK_CHARS = 4000
+
+/**
+ * Count sorted values below a limit
+ */
+function countBefore(sorted: number[], limit: number): number {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (sorted[mid] < limit) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+/**
+ * Check whether a window of words runs over a line break - phrases never span lines
+ */
+function spansLineBreak(tokens: Token[], start: number, size: number): boolean {
+  for (let i = start + 1; i < start + size; i++) {
+    if ((tokens[i].cleanWord.whitespaceBefore || '').indexOf('\n') !== -1) return true
+  }
+  return false
 }
 
 export class ThreePassCompressionEngine {
   private pass0Patterns: CompressionPattern[] = []
   private phrasePatterns: CompressionPattern[] = []
   private wordPatterns: CompressionPattern[] = []
-  private cacheHits = new Map<string, CompressionResult>()
+  private templatePatterns: CompressionPattern[] = []
+  private matchersByMode = new Map<string, PatternMatchers>()  // Keyed by confidence mode threshold and language
+  private ruleSetMatchers = new Map<string, { version: number; byMode: Map<string, PatternMatchers> }>()
+  private patternVersion = 0
+  private readonly resultCache: LRUCache<CompressionResult>
+  private tokenizer: Tokenizer = bpeTokenizer
+  private tokenCostCache = new Map<string, number>()
+
+  constructor(
+    private readonly patternCache: PatternSnapshotCache = patternSnapshotCache,
+    resultCacheOptions: LRUCacheOptions = DEFAULT_RESULT_CACHE,
+    private readonly ruleSets: RuleSetCache = ruleSetCache,
+    private readonly passes: PassRegistry = passRegistry
+  ) {
+    this.resultCache = new LRUCache<CompressionResult>(resultCacheOptions)
+  }
 
   /**
    * Main compression entry point
    */
-  async compress(text: string, sessionId?: string): Promise<CompressionResult> {
+  async compress(text: string, sessionId?: string, options: CompressionOptions = {}): Promise<CompressionResult> {
+    const startTime = Date.now()
+
+    // Step 1: Load patterns (served from the snapshot cache) and the requested rule set
+    await this.loadPatterns()
+    const layer = await this.loadRuleSet(options.ruleSet)
+
+    // Steps 2-4: cache lookup, three-pass compression, cache store
+    return this.compressWithLoadedPatterns(text, startTime, sessionId, options, layer)
+  }
+
+  /**
+   * Compress many texts against a single pattern load
+   * Every item sees the same rule-set version even if rules change mid-batch
+   */
+  async compressBatch(
+    items: BatchCompressionItem[],
+    sessionId?: string,
+    options: CompressionOptions = {}
+  ): Promise<BatchCompressionResult> {
+    const startTime = Date.now()
+    await this.loadPatterns()
+    const layer = await this.loadRuleSet(options.ruleSet)
+    this.passes.resolve(options)
+
+    const results: BatchItemResult[] = []
+    for (const item of items) {
+      try {
+        const result = await this.compressWithLoadedPatterns(item.text, Date.now(), sessionId, options, layer)
+        results.push({ id: item.id, success: true, result })
+      } catch (error) {
+        console.error(`[${sessionId}] Batch item ${item.id} failed:`, error)
+        results.push({ id: item.id, success: false, error: 'Compression processing failed' })
+      }
+    }
+
+    const succeeded = results.filter(item => item.result).map(item => item.result as CompressionResult)
+    const originalLength = succeeded.reduce((sum, result) => sum + result.original.length, 0)
+    const compressedLength = succeeded.reduce((sum, result) => sum + result.compressed.length, 0)
+
+    return {
+      results,
+      stats: {
+        totalItems: items.length,
+        succeeded: succeeded.length,
+        failed: items.length - succeeded.length,
+        cacheHits: succeeded.filter(result => result.fromCache).length,
+        totalRulesApplied: succeeded.reduce((sum, result) => sum + result.rulesApplied.length, 0),
+        originalLength,
+        compressedLength,
+        compressionRatio: originalLength > 0
+          ? Math.round(((originalLength - compressedLength) / originalLength) * 100)
+          : 0,
+        processingTime: Date.now() - startTime
+      },
+      patternVersion: this.patternVersion
+    }
+  }
+
+  /**
+   * Compress a long document chunk by chunk, handing each compressed chunk to `onChunk`
+   * as soon as it is final. Chunks end at paragraph/sentence boundaries; the last few
+   * tokens of every chunk are carried into the next one so phrases spanning a boundary
+   * still match. Stream results are not cached.
+   */
+  async compressStream(
+    text: string,
+    sessionId: string | undefined,
+    options: CompressionOptions,
+    onChunk: StreamChunkHandler,
+    maxChunkChars: number = DEFAULT_STREAM_CHUNK_CHARS
+  ): Promise<StreamCompressionSummary> {
     const startTime = Date.now()
+    await this.loadPatterns()
+    const layer = await this.loadRuleSet(options.ruleSet)
+
+    const confidenceMode = options.confidenceMode ?? 'default'
+    const tokenAware = options.tokenAware === true
+    const segmentation = options.segmentation ?? 'greedy'
+    const language = resolveLanguage(text, options.language)
+    const threshold = thresholdForMode(confidenceMode)
+    const matchers = this.getMatchers(threshold, layer, language.language)
+    const run: CompressionRun = {
+      confidenceMode, threshold, tokenAware, segmentation, explain: false, layer, language, sessionId,
+      pipeline: this.passes.resolve(options)
+    }
+
+    // A phrase crossing a boundary starts at most this many tokens before it
+    const lookback = Math.max(0, Math.min(6, matchers.phrase.maxWords) - 1)
+
+    // Pass 0 sees the whole document, so its rules carry document-wide token positions
+    const pass0Result = this.performPass0(text, run, matchers)
+    const chunks = splitIntoChunks(pass0Result.processed, maxChunkChars)
+    console.log(`[${sessionId}] Streaming ${text.length} chars in ${chunks.length} chunks`)
+
+    const pendingRules: AppliedRule[] = this.pass0Rules(pass0Result)
+
+    let carry = ''                          // Raw text of tokens handed to the next chunk
+    let carriedSeparator: string | null = null
+    let tokenOffset = 0
+    let emitted = 0
+    let totalRulesApplied = 0
+    let compressed = ''
+
+    for (let c = 0; c < chunks.length; c++) {
+      const chunkStart = Date.now()
+      const isLast = c === chunks.length - 1
+      const input = carry + chunks[c]
+      const separator: string = c === 0 ? '' : (carriedSeparator ?? (input.match(/^\s*/) as RegExpMatchArray)[0])
+
+      const tokens = this.createTokens(input)
+      const chunkRules: AppliedRule[] = []
+      await this.performWordPasses(tokens, input, chunkRules, matchers, run)
+
+      // Hold back the tail (and any phrase reaching into it) for the next chunk
+      let commit = tokens.length
+      if (!isLast) {
+        commit = Math.max(0, tokens.length - lookback)
+        while (commit > 0 && commit < tokens.length && this.isFoldedIntoPhrase(tokens[commit])) {
+          commit--
+        }
+
+        const trailing = (input.match(/\s*$/) as RegExpMatchArray)[0]
+        if (commit < tokens.length) {
+          carriedSeparator = commit === 0 ? separator : (tokens[commit].cleanWord.whitespaceBefore ?? ' ')
+          carry = tokens.slice(commit)
+            .map((token, i) => `${i === 0 ? '' : (token.cleanWord.whitespaceBefore ?? ' ')}${token.original}`)
+            .join('') + trailing
+        } else {
+          carriedSeparator = null
+          carry = trailing
+        }
+      }
+
+      if (commit === 0) continue
+
+      const committed = tokens.slice(0, commit)
+      const rules = pendingRules.splice(0).concat(
+        chunkRules
+          .filter(rule => rule.startIndex < commit)
+          .map(rule => ({ ...rule, startIndex: rule.startIndex + tokenOffset, endIndex: rule.endIndex + tokenOffset }))
+      )
+      const chunkText = separator + this.reassembleText(committed, input)
+
+      await this.trackMisses(input, committed, rules, language.language)
+      await this.updateUsageCounts(rules)
+
+      compressed += chunkText
+      totalRulesApplied += rules.length
+      tokenOffset += commit
 
-    // Step 1: Check full-text cache
-    const cacheKey = this.generateCacheKey(text)
-    const cached = this.cacheHits.get(cacheKey)
+      await onChunk({
+        index: emitted++,
+        compressed: chunkText,
+        rulesApplied: rules,
+        originalLength: input.length - carry.length,
+        processingTime: Date.now() - chunkStart
+      })
+    }
+
+    return {
+      chunks: emitted,
+      originalLength: text.length,
+      compressedLength: compressed.length,
+      compressionRatio: this.calculateCompressionRatio(text, compressed),
+      totalRulesApplied,
+      processingTime: Date.now() - startTime,
+      confidenceMode,
+      confidenceThreshold: threshold,
+      ruleSet: layer ? { id: layer.ruleSet.id, name: layer.ruleSet.name, version: layer.version } : undefined,
+      language,
+      tokenStats: calculateTokenStats(this.tokenizer, text, compressed),
+      pass0Result
+    }
+  }
+
+  /**
+   * Compress one text with patterns already loaded, going through the result cache
+   */
+  private async compressWithLoadedPatterns(
+    text: string,
+    startTime: number,
+    sessionId: string | undefined,
+    options: CompressionOptions,
+    layer: RuleSetLayer | null
+  ): Promise<CompressionResult> {
+    const useCache = options.enableCaching !== false
+    const confidenceMode = options.confidenceMode ?? 'default'
+    const segmentation = options.segmentation ?? 'greedy'
+    const pipeline = this.passes.resolve(options)
+
+    // Step 2: Check full-text cache for this rule-set version and pass pipeline
+    const cacheKey = this.generateCacheKey(
+      text,
+      {
+        ...options,
+        confidenceMode,
+        tokenAware: options.tokenAware === true,
+        segmentation,
+        explain: options.explain === true,
+        passes: pipeline,
+        passProfile: undefined,
+        disablePasses: undefined,
+        enablePasses: undefined
+      },
+      layer ? layer.version : 0
+    )
+    const cached = useCache ? this.resultCache.get(cacheKey) : undefined
     if (cached) {
       return {
         ...cached,
@@ -68,104 +474,511 @@ export class ThreePassCompressionEngine {
       }
     }
 
-    // Step 2: Load patterns from database
-    await this.loadPatterns()
-
-    // Step 3: Three-pass compression
-    const result = await this.performThreePassCompression(text, startTime, sessionId)
+    // Step 3: Pass pipeline with the rules of the text's language
+    const run: CompressionRun = {
+      confidenceMode,
+      threshold: thresholdForMode(confidenceMode),
+      tokenAware: options.tokenAware === true,
+      segmentation,
+      explain: options.explain === true,
+      layer,
+      language: resolveLanguage(text, options.language),
+      sessionId,
+      pipeline
+    }
+    const result = options.targetLength !== undefined || options.targetTokens !== undefined
+      ? await this.performBudgetCompression(text, startTime, run, options.targetLength, options.targetTokens)
+      : await this.performThreePassCompression(text, startTime, run)
 
     // Step 4: Cache result for future use
-    this.cacheHits.set(cacheKey, { ...result, fromCache: false })
+    if (useCache) {
+      this.resultCache.set(cacheKey, { ...result, fromCache: false })
+    }
 
     return result
   }
 
   /**
-   * Load compression patterns from database by priority
+   * Expand PCL output back to natural text
+   * Uses AppliedRule indices when the caller kept them, otherwise reverse-looks-up compressed forms
+   */
+  async decompress(compressed: string, rulesApplied?: AppliedRule[]): Promise<DecompressionResult> {
+    const startTime = Date.now()
+    const compressedWords = extractCleanWords(compressed)
+
+    // Without the applied rules we can only reverse-map against the compressions table
+    if (!rulesApplied || rulesApplied.length === 0) {
+      await this.loadPatterns()
+    }
+
+    const reverseIndex = this.buildReverseIndex(rulesApplied)
+    const rulesReversed: AppliedRule[] = []
+    const unresolvedTokens: string[] = []
+    const expanded: string[] = []
+    // Each expansion keeps the whitespace written before its first compressed word
+    // (the first word only follows removed words put back in front of it)
+    const separator = (word: CleanWord) =>
+      (expanded.length === 0 ? '' : word === compressedWords[0] ? ' ' : (word.whitespaceBefore ?? ' '))
+    let usedRuleIndices = false
+
+    // Rules from Pass 1 and 2 keyed by their post-Pass-0 token position
+    const rulesByStart = new Map<number, AppliedRule>()
+    for (const rule of rulesApplied || []) {
+      if (rule.pass > 0) rulesByStart.set(rule.startIndex, rule)
+    }
+
+    let position = 0
+    let i = 0
+    while (i < compressedWords.length) {
+      // Words a pass removed come back where they stood
+      const afterRemovals = this.restoreRemovedWords(rulesByStart, position, expanded, rulesReversed)
+      if (afterRemovals !== position) {
+        usedRuleIndices = true
+        position = afterRemovals
+      }
+
+      // Positional expansion: the rule that produced this token is known
+      const positionalRule = rulesByStart.get(position)
+      if (positionalRule) {
+        const formWords = this.matchKeyWords(positionalRule.compressedForm)
+        const window = compressedWords.slice(i, i + formWords.length)
+        if (window.map(w => w.clean).join(' ') === formWords.join(' ')) {
+          expanded.push(separator(window[0]) + this.expandWindow(window, positionalRule.originalText, positionalRule.compressedForm, positionalRule.questionMarkAdded))
+          rulesReversed.push(positionalRule)
+          usedRuleIndices = true
+          i += formWords.length
+          position = positionalRule.endIndex + 1
+          continue
+        }
+      }
+
+      // Fallback: longest compressed form starting at this token
+      let matched = false
+      for (let windowSize = Math.min(6, compressedWords.length - i); windowSize >= 1; windowSize--) {
+        const window = compressedWords.slice(i, i + windowSize)
+        const entry = reverseIndex.get(window.map(w => w.clean).join(' '))
+        if (entry) {
+          expanded.push(separator(window[0]) + this.expandWindow(window, entry.originalText, entry.compressedForm))
+          rulesReversed.push({ ...entry, startIndex: position, endIndex: position + entry.originalText.split(/\s+/).length - 1 })
+          i += windowSize
+          position += entry.originalText.split(/\s+/).length
+          matched = true
+          break
+        }
+      }
+      if (matched) continue
+
+      // Unknown token - keep as written
+      const word = compressedWords[i]
+      if (this.looksCompressed(word.clean)) {
+        unresolvedTokens.push(word.original)
+      }
+      expanded.push(separator(word) + word.original)
+      i++
+      position++
+    }
+    if (this.restoreRemovedWords(rulesByStart, position, expanded, rulesReversed) !== position) usedRuleIndices = true
+
+    let decompressed = expanded.join('')
+
+    // Pass 0 is only reversible when its prefix and filler removals were reported
+    // Later removals go first so the word offsets of earlier ones stay valid - the same word keeps
+    // removals in their reported order - and removals after the last word are appended in order
+    const pass0Rules = (rulesApplied || []).filter(rule => rule.pass === 0)
+    if (pass0Rules.length > 0) {
+      const words = extractCleanWords(decompressed)
+      const starts = this.wordStartOffsets(decompressed, words)
+
+      pass0Rules
+        .map((rule, order) => ({ rule, order }))
+        .filter(({ rule }) => rule.startIndex < words.length)
+        .sort((a, b) => b.rule.startIndex - a.rule.startIndex || b.order - a.order)
+        .forEach(({ rule }) => {
+          const lastWord = words[rule.endIndex]
+          if (rule.compressedForm === '?' && lastWord && lastWord.original.endsWith('?')) {
+            const questionMark = starts[rule.endIndex] + lastWord.original.length - 1
+            decompressed = decompressed.slice(0, questionMark) + decompressed.slice(questionMark + 1)
+          }
+
+          const start = starts[rule.startIndex]
+          decompressed = `${decompressed.slice(0, start)}${rule.originalText}${rule.separator ?? ' '}${decompressed.slice(start)}`
+        })
+      pass0Rules.filter(rule => rule.startIndex >= words.length).forEach(rule => {
+        decompressed = decompressed ? `${decompressed}${rule.separator ?? ' '}${rule.originalText}` : rule.originalText
+      })
+      rulesReversed.unshift(...pass0Rules)
+    }
+
+    return {
+      compressed,
+      decompressed,
+      rulesReversed,
+      unresolvedTokens,
+      usedRuleIndices,
+      processingTime: Date.now() - startTime
+    }
+  }
+
+  /**
+   * Put back the words registered passes removed from `position` on - returns the position after them
+   */
+  private restoreRemovedWords(
+    rulesByStart: Map<number, AppliedRule>,
+    position: number,
+    expanded: string[],
+    rulesReversed: AppliedRule[]
+  ): number {
+    let removal = rulesByStart.get(position)
+    while (removal && removal.compressedForm === '') {
+      expanded.push((expanded.length === 0 ? '' : ' ') + removal.originalText)
+      rulesReversed.push(removal)
+      position = removal.endIndex + 1
+      removal = rulesByStart.get(position)
+    }
+    return position
+  }
+
+  /**
+   * Build compressed form → original lookup from applied rules or loaded patterns
+   */
+  private buildReverseIndex(rulesApplied?: AppliedRule[]): Map<string, AppliedRule> {
+    const index = new Map<string, AppliedRule>()
+
+    const candidates: AppliedRule[] = rulesApplied && rulesApplied.length > 0
+      ? rulesApplied.filter(rule => rule.pass > 0)
+      : [...this.phrasePatterns, ...this.wordPatterns].map(pattern => ({
+          id: pattern.text_hash,
+          originalText: pattern.original_text,
+          compressedForm: pattern.compressed_form,
+          pass: pattern.pass_priority ?? (pattern.word_count && pattern.word_count > 1 ? 1 : 2),
+          confidence: pattern.confidence_score ?? 0.7,
+          startIndex: 0,
+          endIndex: 0
+        }))
+
+    for (const rule of candidates) {
+      const key = this.matchKeyWords(rule.compressedForm).join(' ')
+      // Identity rules and empty forms carry nothing to expand
+      if (!key || key === rule.originalText.toLowerCase()) continue
+
+      // Several originals can share a compressed form - keep the most trusted one
+      const existing = index.get(key)
+      if (!existing || rule.confidence > existing.confidence) {
+        index.set(key, rule)
+      }
+    }
+
+    return index
+  }
+
+  /**
+   * Clean words of a compressed form, as they appear after extractCleanWords
+   */
+  private matchKeyWords(compressedForm: string): string[] {
+    return extractCleanWords(compressedForm).map(word => word.clean)
+  }
+
+  /**
+   * Replace a window of compressed words with the original wording, keeping outer punctuation
+   */
+  private expandWindow(window: CleanWord[], originalText: string, compressedForm: string, questionMarkAdded = false): string {
+    const first = window[0]
+    const last = window[window.length - 1]
+    const written = window.map(w => w.original).join(' ')
+    const leading = first ? first.leadingPunctuation : ''
+    let trailing = last ? last.trailingPunctuation : ''
+    if (questionMarkAdded && trailing.charAt(trailing.length - 1) === '?') {
+      trailing = trailing.slice(0, -1)
+    }
+
+    // The rule's stored casing ("GitHub") stands - casing the writer added on top carries over
+    let restored = originalText
+    if (written.length > 1 && written === written.toUpperCase() && compressedForm !== compressedForm.toUpperCase()) {
+      restored = restored.toUpperCase()
+    } else if (/^[^a-z]*[A-Z]/.test(written) && !/^[A-Z]/.test(compressedForm)) {
+      restored = restored.charAt(0).toUpperCase() + restored.slice(1)
+    }
+
+    return `${leading}${restored}${trailing}`
+  }
+
+  /**
+   * Heuristic for tokens that look like abbreviations we could not expand
+   */
+  private looksCompressed(clean: string): boolean {
+    return clean.length > 1 && !/[aeiouy]/.test(clean)
+  }
+
+  /**
+   * Load compression patterns from the shared snapshot
+   * Matchers are only rebuilt when the snapshot version changes
    */
   private async loadPatterns() {
-    try {
-      // Load Pass 0 patterns (priority 0)
-      this.pass0Patterns = await db.getPatternsByPriority(0, 0.70)
+    const snapshot = await this.patternCache.get()
+    if (snapshot.version === this.patternVersion) return
+
+    this.pass0Patterns = snapshot.pass0Patterns
+    this.phrasePatterns = snapshot.phrasePatterns
+    this.wordPatterns = snapshot.wordPatterns
+    this.templatePatterns = snapshot.templatePatterns
+    this.matchersByMode.clear()
+    this.ruleSetMatchers.clear()
+    this.patternVersion = snapshot.version
+  }
 
-      // Load phrase patterns (Pass 1, priority 1)
-      this.phrasePatterns = await db.getPatternsByPriority(1, 0.70)
+  /**
+   * Load the rule set a request asked for
+   */
+  private async loadRuleSet(ruleSetId?: string): Promise<RuleSetLayer | null> {
+    if (!ruleSetId) return null
 
-      // Load word patterns (Pass 2, priority 2)
-      this.wordPatterns = await db.getPatternsByPriority(2, 0.70)
+    const layer = await this.ruleSets.get(ruleSetId)
+    if (!layer) {
+      throw new Error(`Rule set not found: ${ruleSetId}`)
+    }
+    return layer
+  }
 
-      console.log(`Loaded ${this.pass0Patterns.length} Pass 0 patterns, ${this.phrasePatterns.length} phrase patterns, ${this.wordPatterns.length} word patterns`)
-    } catch (error) {
-      console.error('Failed to load patterns:', error)
-      throw new Error('Database connection failed')
+  /**
+   * Get matchers holding only the rules of one language trusted enough for a confidence threshold
+   * Built once per snapshot version, threshold and language so each lookup is independent of the rule count -
+   * only confidence mode thresholds are kept, budget levels (any rule's confidence) build their own
+   */
+  private getMatchers(
+    threshold: number,
+    layer: RuleSetLayer | null = null,
+    language: Language = DEFAULT_LANGUAGE,
+    store: boolean = true
+  ): PatternMatchers {
+    // Rule sets get their own matchers, rebuilt whenever the set is reloaded
+    let byMode = this.matchersByMode
+    if (layer) {
+      const entry = this.ruleSetMatchers.get(layer.ruleSet.id)
+      if (!entry || entry.version !== layer.version) {
+        this.ruleSetMatchers.set(layer.ruleSet.id, { version: layer.version, byMode: new Map() })
+      }
+      byMode = this.ruleSetMatchers.get(layer.ruleSet.id)!.byMode
+    }
+
+    const key = `${threshold}:${language}`
+    const existing = byMode.get(key)
+    if (existing) return existing
+
+    const trusted = (pattern: CompressionPattern) => (pattern.confidence_score ?? 0.7) >= threshold
+    const inLanguage = this.inLanguage(language)
+    const { phrasePatterns, wordPatterns } = this.languagePatterns(layer, language)
+    // Prefix rows the mode doesn't trust remove nothing - they don't bring the built-in list back
+    const prefixPatterns = this.pass0Patterns.filter(inLanguage)
+
+    const matchers: PatternMatchers = {
+      prefixes: prefixPatterns.length > 0 ? buildQuestionPrefixes(prefixPatterns.filter(trusted)) : undefined,
+      templates: this.compileTemplates(this.templatePatterns.filter(inLanguage).filter(trusted)),
+      phrase: new PhraseMatcher(phrasePatterns.filter(trusted), { requireWordCount: true }),
+      word: new PhraseMatcher(wordPatterns.filter(trusted))
+    }
+    if (store) byMode.set(key, matchers)
+    return matchers
+  }
+
+  /**
+   * Filter for the rules of one language - rows written before languages existed are English
+   */
+  private inLanguage(language: Language): (pattern: CompressionPattern) => boolean {
+    return pattern => (pattern.language ?? DEFAULT_LANGUAGE) === language
+  }
+
+  /**
+   * Phrase and word rules of one language with the rule set layered over them, confidence unchecked
+   * Rule set overrides are personal and apply whatever the language
+   */
+  private languagePatterns(
+    layer: RuleSetLayer | null,
+    language: Language
+  ): { phrasePatterns: CompressionPattern[]; wordPatterns: CompressionPattern[] } {
+    const globalPhrases = this.phrasePatterns.filter(this.inLanguage(language))
+    const globalWords = this.wordPatterns.filter(this.inLanguage(language))
+    return {
+      phrasePatterns: layer ? layerPatterns(globalPhrases, layer, 1) : globalPhrases,
+      wordPatterns: layer ? layerPatterns(globalWords, layer, 2) : globalWords
+    }
+  }
+
+  /**
+   * Start an explain-mode trace - its matchers are built per request, explain mode is a debugging aid
+   */
+  private createExplainer(tokens: Token[], threshold: number, layer: RuleSetLayer | null, language: Language): Explainer {
+    const { phrasePatterns, wordPatterns } = this.languagePatterns(layer, language)
+    return {
+      tracer: new CompressionTracer(tokens.map(token => token.cleanWord), threshold),
+      phrase: new PhraseMatcher(phrasePatterns),
+      word: new PhraseMatcher(wordPatterns)
+    }
+  }
+
+  /**
+   * Compile template and regex rules, leaving out any that no longer validate
+   */
+  private compileTemplates(patterns: CompressionPattern[]): TemplateRule[] {
+    const templates: TemplateRule[] = []
+    patterns.filter(pattern => isTemplateRuleType(pattern.compression_type)).forEach(pattern => {
+      try {
+        templates.push(compileTemplateRule(pattern))
+      } catch (error) {
+        console.warn(`⚠️ Skipping template rule "${pattern.original_text}":`, error)
+      }
+    })
+    return templates
+  }
+
+  /**
+   * Budget mode: apply the most trusted rules first and find the highest confidence floor - into
+   * the aggressive band only if needed - whose output fits, by binary search over the rule confidences
+   */
+  private async performBudgetCompression(
+    text: string,
+    startTime: number,
+    run: CompressionRun,
+    targetLength?: number,
+    targetTokens?: number
+  ): Promise<CompressionResult> {
+    const fits = (candidate: string) =>
+      (targetLength === undefined || candidate.length <= targetLength) &&
+      (targetTokens === undefined || this.tokenizer.countTokens(candidate) <= targetTokens)
+    const budget = (met: boolean, confidenceFloor: number | null): BudgetResult => ({
+      targetLength,
+      targetTokens,
+      met,
+      confidenceFloor,
+      aggressive: confidenceFloor !== null && confidenceFloor < CONFIDENCE_THRESHOLDS.DEFAULT
+    })
+
+    // Already short enough - no rule is the safest rule
+    if (fits(text)) {
+      return { ...this.uncompressedResult(text, startTime, run), budget: budget(true, null) }
+    }
+
+    // Lower floors apply more rules, so the levels that fit come after the ones that don't
+    const lowest = CONFIDENCE_THRESHOLDS.AGGRESSIVE
+    const levels = this.confidenceLevels(run.layer, run.language.language, lowest)
+    let low = 0
+    let high = levels.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      const trial = await this.performThreePassCompression(text, startTime, { ...run, threshold: levels[mid], explain: false, dryRun: true })
+      if (fits(trial.compressed)) high = mid
+      else low = mid + 1
+    }
+    const floor = low < levels.length ? levels[low] : lowest
+
+    console.log(`[${run.sessionId}] Budget: rules down to confidence ${floor}`)
+    const result = await this.performThreePassCompression(text, startTime, { ...run, threshold: floor })
+    return { ...result, budget: budget(fits(result.compressed), floor) }
+  }
+
+  /**
+   * Distinct confidences of the rules that could apply to a language, highest first
+   */
+  private confidenceLevels(layer: RuleSetLayer | null, language: Language, lowest: number): number[] {
+    const inLanguage = this.inLanguage(language)
+    const { phrasePatterns, wordPatterns } = this.languagePatterns(layer, language)
+    const confidences = this.pass0Patterns.filter(inLanguage)
+      .concat(this.templatePatterns.filter(inLanguage), phrasePatterns, wordPatterns)
+      .map(pattern => pattern.confidence_score ?? 0.7)
+      .filter(confidence => confidence >= lowest)
+      .sort((a, b) => b - a)
+    return confidences.filter((confidence, index) => index === 0 || confidence !== confidences[index - 1])
+  }
+
+  /**
+   * Result for a text returned as written
+   */
+  private uncompressedResult(text: string, startTime: number, run: CompressionRun): CompressionResult {
+    const untouched: PassResult = { tokensProcessed: 0, rulesApplied: 0, processingTime: 0 }
+    return {
+      original: text,
+      compressed: text,
+      compressionRatio: 0,
+      processingTime: Date.now() - startTime,
+      rulesApplied: [],
+      fromCache: false,
+      confidenceMode: run.confidenceMode,
+      confidenceThreshold: run.threshold,
+      ruleSet: run.layer ? { id: run.layer.ruleSet.id, name: run.layer.ruleSet.name, version: run.layer.version } : undefined,
+      language: run.language,
+      segmentation: { mode: run.segmentation, score: 0 },
+      tokenStats: { ...calculateTokenStats(this.tokenizer, text, text), rulesSkipped: 0 },
+      pipeline: run.pipeline,
+      passResults: { pass0: untouched, templates: untouched, pass1: untouched, pass2: untouched },
+      segments: text.length > 0 ? [{ type: 'unchanged', original: text, compressed: text, start: 0, end: text.length }] : []
     }
   }
 
   /**
-   * Perform the three-pass compression algorithm with Pass 0 prefix removal
+   * Run the pass pipeline - Pass 0 prefix removal, then the word passes in order
    */
-  private async performThreePassCompression(text: string, startTime: number, sessionId?: string): Promise<CompressionResult> {
+  private async performThreePassCompression(
+    text: string,
+    startTime: number,
+    run: CompressionRun
+  ): Promise<CompressionResult> {
+    const { confidenceMode, threshold, tokenAware, segmentation, explain, layer, language, sessionId } = run
+
     // Store original text for case preservation
     const originalText = text
+    const matchers = this.getMatchers(threshold, layer, language.language, threshold === thresholdForMode(confidenceMode))
 
-    // Pass 0: Question prefix removal
+    // Pass 0: Question prefix and filler removal
     const pass0Start = Date.now()
-    const pass0Result = questionPrefixProcessor.processText(text)
+    const pass0Result = this.performPass0(text, run, matchers)
     const pass0Time = Date.now() - pass0Start
 
     // Use Pass 0 processed text for subsequent passes
     const textAfterPass0 = pass0Result.processed
     console.log(`[${sessionId}] Pass 0: "${text}" → "${textAfterPass0}" (${pass0Result.compressionRatio}% compression)`)
 
-    // Extract clean words with punctuation preservation from Pass 0 result
-    const cleanWords = extractCleanWords(textAfterPass0)
+    // Extract word tokens with punctuation preservation from Pass 0 result
+    const tokens = this.createTokens(textAfterPass0)
 
-    console.log(`[${sessionId}] Extracted ${cleanWords.length} words with punctuation handling`)
+    console.log(`[${sessionId}] Extracted ${tokens.length} words with punctuation handling`)
 
-    // Create word-based tokens with punctuation info
-    const tokens: Token[] = cleanWords.map((cleanWord, index) => ({
-      text: cleanWord.clean,           // Clean word for matching
-      original: cleanWord.original,    // Original with punctuation
-      index,
-      processed: false,
-      originalIndex: index,
-      cleanWord: cleanWord             // Full punctuation info
-    }))
+    const explainer = explain ? this.createExplainer(tokens, threshold, layer, language.language) : undefined
+    if (explainer) explainer.tracer.stage('pass0', textAfterPass0)
 
     const appliedRules: AppliedRule[] = []
 
-    // Add Pass 0 rule if prefix was removed
-    if (pass0Result.prefixRemoved) {
-      appliedRules.push({
-        id: 'pass0-prefix-removal',
-        originalText: pass0Result.prefixRemoved,
-        compressedForm: pass0Result.questionMarkAdded ? '?' : '',
-        pass: 0,
-        confidence: 0.95,
-        startIndex: 0,
-        endIndex: 0
-      })
-    }
-
-    // Pass 1: Phrase compression (2-6 word patterns)
-    const pass1Start = Date.now()
-    const pass1Result = await this.performPhrasePass(tokens, appliedRules)
-    const pass1Time = Date.now() - pass1Start
+    // Add a Pass 0 rule for every sentence that lost its prefix
+    appliedRules.push(...this.pass0Rules(pass0Result, tokens.map(token => token.cleanWord)))
 
-    // Pass 2: Word compression (individual words)
-    const pass2Start = Date.now()
-    const pass2Result = await this.performWordPass(tokens, appliedRules)
-    const pass2Time = Date.now() - pass2Start
+    // Templates, Pass 1 phrases, Pass 2 words and registered passes, in pipeline order
+    const wordPassResults = await this.performWordPasses(tokens, textAfterPass0, appliedRules, matchers, run, explainer)
 
     // Reassemble the text with proper spacing
-    const compressed = this.reassembleText(tokens, textAfterPass0)
+    const pieces = this.outputPieces(tokens, textAfterPass0)
+    const compressed = this.joinPieces(pieces)
     const compressionRatio = this.calculateCompressionRatio(originalText, compressed)
 
-    // Track misses for patterns not found
-    await this.trackMisses(originalText, tokens, appliedRules)
+    // Budget trials leave no trace - only the run that is returned counts
+    if (!run.dryRun) {
+      // Track misses for patterns not found
+      await this.trackMisses(originalText, tokens, appliedRules, language.language)
 
-    // Update usage counts for applied rules
-    await this.updateUsageCounts(appliedRules)
+      // Update usage counts for applied rules
+      await this.updateUsageCounts(appliedRules)
+    }
+
+    // Passes left out of the pipeline report zeros
+    const untouched: PassResult = { tokensProcessed: 0, rulesApplied: 0, processingTime: 0 }
+    const passResults: CompressionResult['passResults'] = {
+      pass0: {
+        tokensProcessed: pass0Result.removals.length,
+        rulesApplied: pass0Result.removals.length,
+        processingTime: pass0Time
+      },
+      templates: untouched,
+      pass1: untouched,
+      pass2: untouched,
+      ...wordPassResults
+    }
 
     return {
       original: originalText,
@@ -174,109 +987,613 @@ export class ThreePassCompressionEngine {
       processingTime: Date.now() - startTime,
       rulesApplied: appliedRules,
       fromCache: false,
-      passResults: {
-        pass0: {
-          tokensProcessed: pass0Result.prefixRemoved ? 1 : 0,
-          rulesApplied: pass0Result.prefixRemoved ? 1 : 0,
-          processingTime: pass0Time
-        },
-        pass1: {
-          tokensProcessed: pass1Result.tokensProcessed,
-          rulesApplied: pass1Result.rulesApplied,
-          processingTime: pass1Time
-        },
-        pass2: {
-          tokensProcessed: pass2Result.tokensProcessed,
-          rulesApplied: pass2Result.rulesApplied,
-          processingTime: pass2Time
-        }
+      confidenceMode,
+      confidenceThreshold: threshold,
+      ruleSet: layer ? { id: layer.ruleSet.id, name: layer.ruleSet.name, version: layer.version } : undefined,
+      language,
+      segmentation: {
+        mode: segmentation,
+        score: this.segmentationScore(appliedRules, tokenAware)
       },
-      pass0Result
+      tokenStats: {
+        ...calculateTokenStats(this.tokenizer, originalText, compressed),
+        rulesSkipped: Object.keys(wordPassResults).reduce((sum, id) => sum + (wordPassResults[id].rulesSkipped ?? 0), 0)
+      },
+      pipeline: run.pipeline,
+      passResults,
+      segments: buildSegments(originalText, pass0Result, pieces, appliedRules),
+      pass0Result,
+      trace: explainer
+        ? explainer.tracer.finish(tokens.map(token => (token.processed ? token.text : token.original)))
+        : undefined
+    }
+  }
+
+  /**
+   * Pass 0 when the pipeline starts with it, otherwise the text as written
+   */
+  private performPass0(text: string, run: CompressionRun, matchers: PatternMatchers): Pass0Result {
+    return run.pipeline[0] === 'pass0'
+      ? questionPrefixProcessor.processText(text, matchers.prefixes, run.language.language)
+      : questionPrefixProcessor.passThrough(text, run.language.language)
+  }
+
+  /**
+   * Run the pipeline's word passes over the tokens in order, timing each one
+   */
+  private async performWordPasses(
+    tokens: Token[],
+    text: string,
+    appliedRules: AppliedRule[],
+    matchers: PatternMatchers,
+    run: CompressionRun,
+    explainer?: Explainer
+  ): Promise<Record<string, PassResult>> {
+    const results: Record<string, PassResult> = {}
+
+    for (const id of run.pipeline) {
+      if (id === 'pass0') continue
+
+      const passStart = Date.now()
+      const result = await this.performPass(id, tokens, text, appliedRules, matchers, run, explainer)
+      results[id] = { ...result, processingTime: Date.now() - passStart }
+      if (explainer) explainer.tracer.stage(id, this.reassembleText(tokens, text))
+    }
+
+    return results
+  }
+
+  /**
+   * Run one word pass - built-in or registered
+   */
+  private async performPass(
+    id: string,
+    tokens: Token[],
+    text: string,
+    appliedRules: AppliedRule[],
+    matchers: PatternMatchers,
+    run: CompressionRun,
+    explainer?: Explainer
+  ): Promise<PassResult> {
+    switch (id) {
+      case 'templates':
+        // Template pass: one rule covers every phrasing its slots allow
+        return this.performTemplatePass(tokens, appliedRules, matchers.templates, run.tokenAware)
+      case 'pass1':
+        // Pass 1: Phrase compression (2-6 word patterns), greedy or optimal segmentation
+        return this.performPhrasePass(tokens, appliedRules, matchers, run.tokenAware, run.segmentation, explainer)
+      case 'pass2':
+        // Pass 2: Word compression (individual words)
+        return this.performWordPass(tokens, appliedRules, matchers.word, run.tokenAware, explainer)
+    }
+
+    const pass = this.passes.get(id)
+    if (!pass) {
+      throw new Error(`Invalid pass pipeline: unknown pass ${id}`)
+    }
+    return pass.run(this.passContext(id, tokens, text, appliedRules, run))
+  }
+
+  /**
+   * What a registered pass sees of the run, and the only way it changes the tokens
+   */
+  private passContext(id: string, tokens: Token[], text: string, appliedRules: AppliedRule[], run: CompressionRun): PassContext {
+    return {
+      tokens,
+      text,
+      appliedRules,
+      language: run.language.language,
+      threshold: run.threshold,
+      tokenAware: run.tokenAware,
+      sessionId: run.sessionId,
+      replace: (start, size, compressed, rule) => this.applyPassRule(id, tokens, appliedRules, start, size, compressed, rule),
+      remove: (start, size, rule) => this.applyPassRule(id, tokens, appliedRules, start, size, '', rule)
+    }
+  }
+
+  /**
+   * Apply a registered pass's rule to untouched words - an empty compressed form drops them
+   */
+  private applyPassRule(
+    passId: string,
+    tokens: Token[],
+    appliedRules: AppliedRule[],
+    start: number,
+    size: number,
+    compressed: string,
+    rule: PassRule
+  ): boolean {
+    if (!Number.isInteger(start) || !Number.isInteger(size) || start < 0 || size < 1 || start + size > tokens.length) {
+      return false
+    }
+    const window = tokens.slice(start, start + size)
+    if (window.some(token => token.processed)) return false
+
+    // Removed words are reported as written - decompression puts them back whole
+    const pattern: CompressionPattern = {
+      original_text: window.map(token => (compressed.length === 0 ? token.original : token.text)).join(' '),
+      compressed_form: compressed,
+      text_hash: rule.id,
+      compression_type: 'pass',
+      usage_count: 0,
+      word_count: size,
+      confidence_score: rule.confidence ?? 1,
+      case_policy: rule.casePolicy
+    }
+    this.applyPhraseCompression(tokens, start, size, pattern, appliedRules, CUSTOM_PASS_PRIORITY)
+    appliedRules[appliedRules.length - 1].passId = passId
+
+    if (compressed.length === 0) {
+      window.forEach(token => {
+        token.text = ''
+        token.removed = true
+      })
+    }
+    return true
+  }
+
+  /**
+   * Create word-based tokens with punctuation info
+   * Protected spans (code, URLs, paths, JSON) and bare punctuation start processed so no pass touches them
+   */
+  private createTokens(text: string): Token[] {
+    return extractCleanWords(text).map((cleanWord, index) => ({
+      text: this.isPassThrough(cleanWord) ? cleanWord.original : cleanWord.clean, // Clean word for matching
+      original: cleanWord.original,    // Original with punctuation
+      index,
+      processed: this.isPassThrough(cleanWord),
+      originalIndex: index,
+      cleanWord: cleanWord             // Full punctuation info
+    }))
+  }
+
+  /**
+   * Applied rules describing Pass 0 removals - prefixes, filler sentences, lead-ins and sign-offs, in text order
+   * Token positions locate each removal in the post-Pass-0 text so decompression can put it back: a prefix
+   * spans its sentence (for the "?" it added), filler sits before the word that now follows it
+   */
+  private pass0Rules(pass0Result: Pass0Result, words?: CleanWord[]): AppliedRule[] {
+    if (pass0Result.removals.length === 0) return []
+
+    const processedWords = words ?? extractCleanWords(pass0Result.processed)
+    const starts = this.wordStartOffsets(pass0Result.processed, processedWords)
+    const sentences = pass0Result.sentences.filter(sentence => sentence.processedStart !== -1)
+    let next = 0
+
+    return pass0Result.removals.map(removal => {
+      // The sentence the removal was made in, or the first one kept after it
+      while (next < sentences.length && sentences[next].end <= removal.start) next++
+      const sentence = sentences[next]
+      const startIndex = countBefore(starts, sentence ? sentence.processedStart : pass0Result.processed.length)
+
+      // Removals go back before the word that follows them, or after the text when nothing does
+      const separator = startIndex < processedWords.length
+        ? (pass0Result.original.slice(removal.end).match(/^\s*/) as RegExpMatchArray)[0]
+        : (pass0Result.original.slice(0, removal.start).match(/\s*$/) as RegExpMatchArray)[0]
+
+      if (removal.kind !== 'prefix' || !sentence) {
+        return {
+          id: `pass0-${removal.name}`,
+          originalText: removal.text,
+          compressedForm: '',
+          pass: 0,
+          confidence: 0.95,
+          startIndex,
+          endIndex: startIndex,
+          tokenSavings: this.ruleTokenSavings(removal.text, ''),
+          filler: removal.kind === 'prefix' ? undefined : removal.kind,
+          separator
+        }
+      }
+
+      const compressedForm = sentence.questionMarkAdded ? '?' : ''
+      const endIndex = countBefore(starts, sentence.processedStart + sentence.processed.length) - 1
+      return {
+        id: sentence.prefixId ?? 'pass0-prefix-removal',
+        originalText: removal.text,
+        compressedForm,
+        pass: 0,
+        confidence: sentence.prefixConfidence ?? 0.95,
+        startIndex,
+        endIndex: Math.max(startIndex, endIndex),
+        tokenSavings: this.ruleTokenSavings(removal.text, compressedForm),
+        separator
+      }
+    })
+  }
+
+  /**
+   * Character offset of each extracted word in the text it came from
+   */
+  private wordStartOffsets(text: string, words: CleanWord[]): number[] {
+    const starts: number[] = []
+    let position = (text.match(/^\s*/) as RegExpMatchArray)[0].length
+    words.forEach((word, index) => {
+      if (index > 0) position += (word.whitespaceBefore ?? ' ').length
+      starts.push(position)
+      position += word.original.length
+    })
+    return starts
+  }
+
+  /**
+   * Template pass: template and regex rules over runs of untouched words within one sentence
+   */
+  private async performTemplatePass(
+    tokens: Token[],
+    appliedRules: AppliedRule[],
+    templates: TemplateRule[],
+    tokenAware: boolean
+  ): Promise<PassResult> {
+    let tokensProcessed = 0
+    let rulesApplied = 0
+    let rulesSkipped = 0
+    if (templates.length === 0) {
+      return { tokensProcessed, rulesApplied, processingTime: 0, rulesSkipped }
     }
+
+    const cleanWords = tokens.map(token => token.cleanWord)
+
+    // Runs end at protected tokens, punctuation-only tokens and sentence ends
+    const runs: number[][] = []
+    let run: number[] = []
+    tokens.forEach((token, i) => {
+      if (!token.processed) run.push(i)
+      if ((token.processed || endsSentence(cleanWords, i)) && run.length > 0) {
+        runs.push(run)
+        run = []
+      }
+    })
+
+    runs.forEach(indices => {
+      // Character offset of every word in the space-joined run
+      const offsets: number[] = []
+      let words = ''
+      indices.forEach(index => {
+        if (words.length > 0) words += ' '
+        offsets.push(words.length)
+        words += tokens[index].text
+      })
+
+      templates.forEach(template => {
+        let from = 0
+        let match: TemplateMatch | null
+        while ((match = nextTemplateMatch(template, words, from)) !== null) {
+          from = match.start + 1
+          const startIndex = indices[countBefore(offsets, match.start)]
+          const windowSize = countBefore(offsets, match.end) - countBefore(offsets, match.start)
+          const window = tokens.slice(startIndex, startIndex + windowSize)
+
+          // An earlier template already took some of these words
+          if (window.some(token => token.processed)) continue
+          if (!conditionsMet(template.pattern, cleanWords, startIndex, windowSize)) continue
+
+          // "?" in the compressed form merges with a "?" the sentence already ends in
+          let output = match.output
+          const trailing = window[window.length - 1].cleanWord.trailingPunctuation
+          if (trailing && output.charAt(output.length - 1) === trailing.charAt(trailing.length - 1)) {
+            output = output.slice(0, -1).trim()
+          }
+          if (output.length === 0) continue
+
+          if (tokenAware && this.ruleTokenSavings(match.text, output) < 0) {
+            rulesSkipped++
+            continue
+          }
+
+          // The words as written, without the punctuation around them, so decompression restores "I"
+          const written = window.map(token => token.original).join(' ')
+          const originalText = written.slice(window[0].cleanWord.leadingPunctuation.length, written.length - trailing.length)
+
+          const pattern = { ...template.pattern, original_text: originalText, compressed_form: output }
+          this.applyPhraseCompression(tokens, startIndex, windowSize, pattern, appliedRules, TEMPLATE_PASS_PRIORITY)
+          const rule = appliedRules[appliedRules.length - 1]
+          rule.template = template.pattern.original_text
+          if (output.charAt(output.length - 1) === '?') rule.questionMarkAdded = true
+          tokensProcessed += windowSize
+          rulesApplied++
+          from = match.end
+        }
+      })
+    })
+
+    return { tokensProcessed, rulesApplied, processingTime: 0, rulesSkipped }
   }
 
   /**
    * Pass 1: Phrase compression using 6→5→4→3→2→1 sliding window with case-insensitive matching
    */
-  private async performPhrasePass(tokens: Token[], appliedRules: AppliedRule[]): Promise<PassResult> {
+  private async performPhrasePass(
+    tokens: Token[],
+    appliedRules: AppliedRule[],
+    matchers: PatternMatchers,
+    tokenAware: boolean,
+    segmentation: SegmentationMode = 'greedy',
+    explainer?: Explainer
+  ): Promise<PassResult> {
+    if (segmentation === 'optimal') {
+      return this.performOptimalPhrasePass(tokens, appliedRules, matchers, tokenAware, explainer)
+    }
+
+    const matcher = matchers.phrase
     let tokensProcessed = 0
     let rulesApplied = 0
+    let rulesSkipped = 0
+
+    const words = tokens.map(token => token.text)
+    const cleanWords = tokens.map(token => token.cleanWord)
+    const maxWindow = Math.min(6, matcher.maxWords)
 
     // Sliding window: check 6, 5, 4, 3, 2, 1 word combinations (longest first)
-    for (let windowSize = 6; windowSize >= 1; windowSize--) {
+    for (let windowSize = maxWindow; windowSize >= 1; windowSize--) {
       for (let i = 0; i <= tokens.length - windowSize; i++) {
         // Skip if any token in window is already processed
         if (tokens.slice(i, i + windowSize).some(token => token.processed)) {
+          if (explainer) {
+            this.traceTakenWindow(explainer, tokens, appliedRules, 1, i, windowSize, window => matcher.match(window, 0, windowSize))
+          }
           continue
         }
 
         // Extract phrase from word tokens (space-separated)
-        const phraseTokens = tokens.slice(i, i + windowSize)
-        const phrase = phraseTokens.map(t => t.text).join(' ').trim()
+        const phrase = words.slice(i, i + windowSize).join(' ').trim()
 
-        if (!phrase || phrase.length < 2) continue
+        if (!phrase || phrase.length < 2 || spansLineBreak(tokens, i, windowSize)) continue
 
-        // Find matching pattern (both already lowercase)
-        const pattern = this.phrasePatterns.find(p => {
-          const normalizedPatternText = p.original_text.toLowerCase()
-          return normalizedPatternText === phrase && p.word_count === windowSize
-        })
+        // Trie lookup on lowercased words
+        const pattern = matcher.match(words, i, windowSize)
+
+        // Explain mode: look for a rule the confidence mode or its word_count left out
+        if (!pattern && explainer) {
+          explainer.tracer.miss(1, i, windowSize, phrase, explainer.phrase.match(words, i, windowSize))
+        }
+
+        // Conditional rules only fire where their neighbors and sentence position allow
+        if (pattern && !conditionsMet(pattern, cleanWords, i, windowSize)) {
+          if (explainer) explainer.tracer.window(1, i, windowSize, phrase, 'conditions', pattern, pattern.context)
+          continue
+        }
+
+        // Token-aware mode: leave phrases whose abbreviation costs more tokens
+        if (pattern && tokenAware && this.ruleTokenSavings(pattern.original_text, pattern.compressed_form) < 0) {
+          rulesSkipped++
+          if (explainer) explainer.tracer.window(1, i, windowSize, phrase, 'token-cost', pattern)
+          continue
+        }
 
         if (pattern) {
           // Apply compression
           this.applyPhraseCompression(tokens, i, windowSize, pattern, appliedRules)
+          if (explainer) explainer.tracer.window(1, i, windowSize, phrase, 'applied', pattern)
           tokensProcessed += windowSize
           rulesApplied++
         }
       }
     }
 
-    return { tokensProcessed, rulesApplied, processingTime: 0 }
+    return { tokensProcessed, rulesApplied, processingTime: 0, rulesSkipped }
+  }
+
+  /**
+   * Pass 1 in optimal mode: score every phrase match, then apply the best non-overlapping set
+   * What Pass 2 would save on a word competes too, so a phrase can't block two better word rules
+   */
+  private performOptimalPhrasePass(
+    tokens: Token[],
+    appliedRules: AppliedRule[],
+    matchers: PatternMatchers,
+    tokenAware: boolean,
+    explainer?: Explainer
+  ): PassResult {
+    let tokensProcessed = 0
+    let rulesApplied = 0
+    let rulesSkipped = 0
+
+    const words = tokens.map(token => token.text)
+    const cleanWords = tokens.map(token => token.cleanWord)
+    const maxWindow = Math.min(6, matchers.phrase.maxWords)
+    const candidates: (SegmentCandidate & { pattern?: CompressionPattern })[] = []
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].processed) {
+        if (explainer) {
+          for (let size = 1; size <= maxWindow && i + size <= tokens.length; size++) {
+            this.traceTakenWindow(explainer, tokens, appliedRules, 1, i, size, window => matchers.phrase.match(window, 0, size))
+          }
+        }
+        continue
+      }
+
+      const matches = matchers.phrase.matchesAt(words, i, maxWindow)
+      matches.forEach(({ pattern, length }) => {
+        const phrase = words.slice(i, i + length).join(' ').trim()
+        if (tokens.slice(i, i + length).some(token => token.processed)) {
+          if (explainer) this.traceTakenWindow(explainer, tokens, appliedRules, 1, i, length, () => pattern)
+          return
+        }
+        if (phrase.length < 2 || spansLineBreak(tokens, i, length)) return
+        if (!conditionsMet(pattern, cleanWords, i, length)) {
+          if (explainer) explainer.tracer.window(1, i, length, phrase, 'conditions', pattern, pattern.context)
+          return
+        }
+        if (tokenAware && this.ruleTokenSavings(pattern.original_text, pattern.compressed_form) < 0) {
+          rulesSkipped++
+          if (explainer) explainer.tracer.window(1, i, length, phrase, 'token-cost', pattern)
+          return
+        }
+        const score = this.ruleScore(pattern.original_text, pattern.compressed_form, pattern.confidence_score ?? 0.7, tokenAware)
+        candidates.push({ start: i, length, score, pattern })
+      })
+
+      // Explain mode: rules the confidence mode or their word_count left out
+      if (explainer) {
+        explainer.phrase.matchesAt(words, i, maxWindow)
+          .filter(candidate => !matches.some(match => match.length === candidate.length))
+          .forEach(({ pattern, length }) => {
+            explainer.tracer.miss(1, i, length, words.slice(i, i + length).join(' ').trim(), pattern)
+          })
+      }
+
+      // Left to Pass 2 - only scored here so the choice of phrases accounts for it
+      const word = this.matchWord(matchers.word, words[i])
+      if (word && conditionsMet(word.pattern, cleanWords, i, 1) &&
+          !(tokenAware && this.ruleTokenSavings(word.originalText, word.compressedForm) < 0)) {
+        const score = this.ruleScore(word.originalText, word.compressedForm, word.pattern.confidence_score ?? 0.7, tokenAware)
+        candidates.push({ start: i, length: 1, score })
+      }
+    }
+
+    const chosen = optimalSegments(candidates, tokens.length)
+    chosen.forEach(segment => {
+      if (!segment.pattern) return
+      this.applyPhraseCompression(tokens, segment.start, segment.length, segment.pattern, appliedRules)
+      tokensProcessed += segment.length
+      rulesApplied++
+    })
+
+    if (explainer) {
+      candidates.forEach(candidate => {
+        if (!candidate.pattern) return
+        const phrase = words.slice(candidate.start, candidate.start + candidate.length).join(' ').trim()
+        const outcome = chosen.indexOf(candidate) !== -1 ? 'applied' : 'outscored'
+        explainer.tracer.window(1, candidate.start, candidate.length, phrase, outcome, candidate.pattern, `score ${Math.round(candidate.score * 100) / 100}`)
+      })
+    }
+
+    return { tokensProcessed, rulesApplied, processingTime: 0, rulesSkipped }
+  }
+
+  /**
+   * Explain mode: trace a window some earlier rule took words of, if a rule matches it
+   */
+  private traceTakenWindow(
+    explainer: Explainer,
+    tokens: Token[],
+    appliedRules: AppliedRule[],
+    pass: number,
+    start: number,
+    size: number,
+    lookup: (words: string[]) => CompressionPattern | undefined
+  ) {
+    const window = tokens.slice(start, start + size)
+    if (window.length < size || window.some(token => this.isPassThrough(token.cleanWord))) return
+
+    const words = window.map(token => token.cleanWord.clean)
+    const pattern = lookup(words)
+    if (!pattern) return
+
+    const end = start + size - 1
+    const takenBy = appliedRules
+      .filter(rule => rule.pass !== 0 && rule.startIndex <= end && rule.endIndex >= start)
+      .map(rule => `"${rule.originalText}" → "${rule.compressedForm}"`)
+    explainer.tracer.window(pass, start, size, words.join(' '), 'already-processed', pattern,
+      takenBy.length > 0 ? `taken by ${takenBy.join(', ')}` : undefined)
+  }
+
+  /**
+   * Find the rule for a word - an exact rule wins, otherwise an English rule that opted
+   * into inflections matches "explained" through "explain" and compresses it to "xplnd"
+   */
+  private matchWord(
+    matcher: PhraseMatcher,
+    word: string
+  ): { pattern: CompressionPattern; originalText: string; compressedForm: string } | null {
+    const exact = matcher.match([word], 0, 1)
+    if (exact) {
+      return { pattern: exact, originalText: exact.original_text, compressedForm: exact.compressed_form }
+    }
+
+    for (const candidate of baseForms(word)) {
+      const pattern = matcher.match([candidate.base], 0, 1)
+      if (pattern && pattern.inflect && (pattern.language ?? DEFAULT_LANGUAGE) === 'en') {
+        return { pattern, originalText: word, compressedForm: inflectCompressed(pattern.compressed_form, candidate.inflection) }
+      }
+    }
+    return null
   }
 
   /**
    * Pass 2: Word compression for unprocessed tokens (case-insensitive)
    */
-  private async performWordPass(tokens: Token[], appliedRules: AppliedRule[]): Promise<PassResult> {
+  private async performWordPass(
+    tokens: Token[],
+    appliedRules: AppliedRule[],
+    matcher: PhraseMatcher,
+    tokenAware: boolean,
+    explainer?: Explainer
+  ): Promise<PassResult> {
     let tokensProcessed = 0
     let rulesApplied = 0
+    let rulesSkipped = 0
+    const cleanWords = tokens.map(token => token.cleanWord)
+    const wordRule = (word: string) => {
+      const match = this.matchWord(matcher, word)
+      return match ? match.pattern : undefined
+    }
 
     for (let i = 0; i < tokens.length; i++) {
       const token = tokens[i]
 
       // Skip already processed tokens or empty tokens
       if (token.processed || !token.text.trim()) {
+        if (explainer && token.processed) {
+          this.traceTakenWindow(explainer, tokens, appliedRules, 2, i, 1, window => wordRule(window[0]))
+        }
         continue
       }
 
-      // Find matching word pattern (case-insensitive)
-      const pattern = this.wordPatterns.find(p => {
-        const normalizedPatternText = p.original_text.toLowerCase()
-        const normalizedTokenText = token.text.toLowerCase().trim()
-        return normalizedPatternText === normalizedTokenText
-      })
+      // Find matching word pattern (case-insensitive), then the base rule of an inflected word
+      const match = this.matchWord(matcher, token.text)
+
+      // Explain mode: look for a rule the confidence mode left out
+      if (!match && explainer) {
+        const candidate = this.matchWord(explainer.word, token.text)
+        explainer.tracer.miss(2, i, 1, token.text, candidate ? candidate.pattern : null)
+      }
+
+      // "for" → "4" must not fire in "for loop"
+      if (match && !conditionsMet(match.pattern, cleanWords, i, 1)) {
+        if (explainer) explainer.tracer.window(2, i, 1, token.text, 'conditions', match.pattern, match.pattern.context)
+        continue
+      }
+
+      // Token-aware mode: "xpln" can cost more tokens than "explain"
+      if (match && tokenAware && this.ruleTokenSavings(match.originalText, match.compressedForm) < 0) {
+        rulesSkipped++
+        if (explainer) explainer.tracer.window(2, i, 1, token.text, 'token-cost', match.pattern)
+        continue
+      }
+
+      if (match) {
+        const pattern = match.pattern
 
-      if (pattern) {
         // Apply word compression with case preservation
-        token.text = this.preserveCase(token.text, pattern.compressed_form)
+        token.text = applyCasePolicy(token.original, match.compressedForm, pattern.case_policy)
         token.processed = true
 
         appliedRules.push({
           id: pattern.text_hash,
-          originalText: pattern.original_text,
-          compressedForm: pattern.compressed_form,
+          originalText: match.originalText,
+          compressedForm: match.compressedForm,
           pass: 2,
           confidence: pattern.confidence_score ?? 0.7,
           startIndex: i,
-          endIndex: i
+          endIndex: i,
+          tokenSavings: this.ruleTokenSavings(match.originalText, match.compressedForm),
+          ruleSetId: pattern.rule_set_id,
+          inflectedFrom: match.originalText === pattern.original_text ? undefined : pattern.original_text
         })
+        if (explainer) {
+          explainer.tracer.window(2, i, 1, token.text, 'applied', pattern,
+            match.originalText === pattern.original_text ? undefined : `inflection of "${pattern.original_text}" → "${match.compressedForm}"`)
+        }
 
         tokensProcessed++
         rulesApplied++
       }
     }
 
-    return { tokensProcessed, rulesApplied, processingTime: 0 }
+    return { tokensProcessed, rulesApplied, processingTime: 0, rulesSkipped }
   }
 
   /**
@@ -287,14 +1604,15 @@ export class ThreePassCompressionEngine {
     startIndex: number,
     windowSize: number,
     pattern: CompressionPattern,
-    appliedRules: AppliedRule[]
+    appliedRules: AppliedRule[],
+    pass: number = 1
   ) {
-    // Get original phrase for case preservation (space-separated)
+    // Words as written - their casing decides the casing of the compressed phrase
     const originalPhrase = tokens.slice(startIndex, startIndex + windowSize)
-      .map(t => t.text).join(' ')
+      .map(t => t.original).join(' ')
 
-    // Apply compression with case preservation
-    const compressedPhrase = this.preserveCase(originalPhrase, pattern.compressed_form)
+    // Apply compression with the rule's case policy
+    const compressedPhrase = applyCasePolicy(originalPhrase, pattern.compressed_form, pattern.case_policy)
 
     // Replace the first token with compressed phrase, mark others as processed
     tokens[startIndex].text = compressedPhrase
@@ -310,31 +1628,67 @@ export class ThreePassCompressionEngine {
       id: pattern.text_hash,
       originalText: pattern.original_text,
       compressedForm: pattern.compressed_form,
-      pass: 1,
+      pass,
       confidence: pattern.confidence_score ?? 0.7,
       startIndex,
-      endIndex: startIndex + windowSize - 1
+      endIndex: startIndex + windowSize - 1,
+      tokenSavings: this.ruleTokenSavings(pattern.original_text, pattern.compressed_form),
+      ruleSetId: pattern.rule_set_id
     })
   }
 
   /**
-   * Preserve case pattern from original to compressed
+   * Segmentation score of one rule - characters saved (LLM tokens when token-aware) × confidence
    */
-  private preserveCase(original: string, compressed: string): string {
-    // Simple case preservation - can be enhanced
-    if (original === original.toUpperCase()) {
-      return compressed.toUpperCase()
-    }
-    if (original[0] === original[0].toUpperCase()) {
-      return compressed.charAt(0).toUpperCase() + compressed.slice(1).toLowerCase()
+  private ruleScore(original: string, compressed: string, confidence: number, tokenAware: boolean): number {
+    const saved = tokenAware ? this.ruleTokenSavings(original, compressed) : original.length - compressed.length
+    return segmentScore(saved, confidence)
+  }
+
+  /**
+   * Total segmentation score of the Pass 1 and Pass 2 rules a compression applied
+   */
+  private segmentationScore(appliedRules: AppliedRule[], tokenAware: boolean): number {
+    const score = appliedRules
+      .filter(rule => rule.pass === 1 || rule.pass === 2)
+      .reduce((sum, rule) => sum + this.ruleScore(rule.originalText, rule.compressedForm, rule.confidence, tokenAware), 0)
+    return Math.round(score * 100) / 100
+  }
+
+  /**
+   * LLM tokens saved by replacing `original` with `compressed` mid-sentence
+   */
+  private ruleTokenSavings(original: string, compressed: string): number {
+    return this.tokenCost(original) - this.tokenCost(compressed)
+  }
+
+  /**
+   * Memoized inline token cost - rule texts repeat across requests
+   */
+  private tokenCost(text: string): number {
+    let cost = this.tokenCostCache.get(text)
+    if (cost === undefined) {
+      cost = inlineTokenCost(this.tokenizer, text)
+      // Rule texts are bounded, but cap the memo in case free text ends up here
+      if (this.tokenCostCache.size >= 50000) this.tokenCostCache.clear()
+      this.tokenCostCache.set(text, cost)
     }
-    return compressed.toLowerCase()
+    return cost
+  }
+
+  /**
+   * Swap the tokenizer used for token counts and token-aware rule selection
+   */
+  setTokenizer(tokenizer: Tokenizer) {
+    this.tokenizer = tokenizer
+    this.tokenCostCache.clear()
+    this.resultCache.clear()
   }
 
   /**
    * Track missed patterns for admin review using smart filtering
    */
-  private async trackMisses(originalText: string, tokens: Token[], appliedRules: AppliedRule[]) {
+  private async trackMisses(originalText: string, tokens: Token[], appliedRules: AppliedRule[], language: Language) {
     try {
       console.log(`🔍 Smart miss tracking for: "${originalText}"`)
 
@@ -342,7 +1696,8 @@ export class ThreePassCompressionEngine {
       const result = await smartMissTracker.trackSmartMisses(
         originalText,
         tokens,
-        appliedRules
+        appliedRules,
+        language
       )
 
       console.log(`📊 Smart miss results: ${result.wordsLogged} words + ${result.phrasesLogged} phrases logged | ${result.wordsSkipped} words + ${result.phrasesSkipped} phrases skipped`)
@@ -364,8 +1719,11 @@ export class ThreePassCompressionEngine {
    */
   private async updateUsageCounts(appliedRules: AppliedRule[]) {
     for (const rule of appliedRules) {
+      // Rule set entries, filler and rules of registered passes aren't rows in the global table
+      if (rule.ruleSetId || rule.passId || rule.filler) continue
       try {
-        await db.incrementUsage(rule.originalText)
+        // Pass 0 reports the prefix as written; rows store it lowercased
+        await db.incrementUsage(rule.pass === 0 ? rule.originalText.toLowerCase().replace(/\s+/g, ' ') : (rule.template ?? rule.inflectedFrom ?? rule.originalText))
       } catch (error) {
         console.error('Failed to update usage count:', error)
       }
@@ -375,25 +1733,101 @@ export class ThreePassCompressionEngine {
   /**
    * Generate cache key for full-text lookups
    */
-  private generateCacheKey(text: string): string {
-    return CryptoJS.MD5(text.trim().toLowerCase()).toString()
+  private generateCacheKey(text: string, options: CompressionOptions, ruleSetVersion: number): string {
+    // Exact text - casing and spacing change the output
+    const { enableCaching, ...outputOptions } = options
+    return CryptoJS.MD5(JSON.stringify([
+      text, this.patternVersion, ruleSetVersion, this.passes.getVersion(), this.tokenizer.name, outputOptions
+    ])).toString()
   }
 
   /**
-   * Reassemble text from tokens with punctuation preservation
+   * Words after the first in a compressed phrase - emptied, their text lives in the phrase head
+   */
+  private isFoldedIntoPhrase(token: Token): boolean {
+    return token.processed && token.text === '' && !token.removed
+  }
+
+  /**
+   * Tokens emitted exactly as written - protected regions and punctuation-only tokens
+   */
+  private isPassThrough(cleanWord: CleanWord): boolean {
+    return !!cleanWord.protectedKind || cleanWord.clean.length === 0
+  }
+
+  /**
+   * Reassemble text from tokens, restoring the original whitespace and punctuation
+   * Whitespace inside a compressed phrase collapses with the words it separated
    */
   private reassembleText(tokens: Token[], originalText: string): string {
-    const result = tokens.map(token => {
-      // If the token was processed (compressed), use the compressed form
-      // Otherwise use the original clean word
-      const finalWord = token.text
+    return this.joinPieces(this.outputPieces(tokens, originalText))
+  }
+
+  /**
+   * Join output pieces into text - the first piece drops its leading whitespace
+   */
+  private joinPieces(pieces: OutputPiece[]): string {
+    return pieces
+      .filter(piece => !piece.removed)
+      .map((piece, index) => `${index === 0 ? '' : piece.whitespace}${piece.leading}${piece.word}${piece.trailing}`)
+      .join('')
+  }
+
+  /**
+   * Output pieces in text order - one per untouched word, one per compressed word or phrase
+   */
+  private outputPieces(tokens: Token[], text: string): OutputPiece[] {
+    const starts = this.wordStartOffsets(text, tokens.map(token => token.cleanWord))
+    const pieces: OutputPiece[] = []
+    let removedWhitespace: string | null = null   // Whitespace before the words a pass removed
 
-      // Reconstruct with original punctuation
+    tokens.forEach((token, index) => {
       const cleanWordInfo = token.cleanWord
-      return `${cleanWordInfo.leadingPunctuation}${finalWord}${cleanWordInfo.trailingPunctuation}`
-    }).filter(word => word.trim().length > 0)
+      const end = starts[index] + token.original.length
+
+      // Removed words leave one gap - the whitespace before the first of them
+      if (token.removed) {
+        const last = pieces[pieces.length - 1]
+        if (last && last.removed) {
+          last.end = end
+        } else {
+          pieces.push({ whitespace: '', leading: '', word: '', trailing: '', first: index, start: starts[index], end, removed: true })
+        }
+        if (removedWhitespace === null) removedWhitespace = cleanWordInfo.whitespaceBefore ?? ' '
+        return
+      }
+
+      // Words folded into a phrase: the phrase takes over their closing punctuation
+      if (this.isFoldedIntoPhrase(token)) {
+        const last = pieces[pieces.length - 1]
+        if (last) {
+          last.end = end
+          if (cleanWordInfo.trailingPunctuation) last.trailing = cleanWordInfo.trailingPunctuation
+        }
+        return
+      }
+
+      const whitespace = removedWhitespace ?? cleanWordInfo.whitespaceBefore ?? ' '
+      removedWhitespace = null
+
+      // Untouched words keep their exact spelling
+      if (!token.processed || this.isPassThrough(cleanWordInfo)) {
+        pieces.push({ whitespace, leading: '', word: token.original, trailing: '', first: index, start: starts[index], end })
+        return
+      }
+
+      pieces.push({
+        whitespace,
+        leading: cleanWordInfo.leadingPunctuation,
+        word: token.text,
+        trailing: cleanWordInfo.trailingPunctuation,
+        first: index,
+        start: starts[index],
+        end
+      })
+    })
 
-    return result.join(' ')
+    return pieces
   }
 
   /**
@@ -408,16 +1842,16 @@ export class ThreePassCompressionEngine {
    * Clear cache (for testing or memory management)
    */
   clearCache() {
-    this.cacheHits.clear()
+    this.resultCache.clear()
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats() {
+  getCacheStats(): LRUCacheStats & { patternVersion: number } {
     return {
-      size: this.cacheHits.size,
-      entries: Array.from(this.cacheHits.keys())
+      ...this.resultCache.getStats(),
+      patternVersion: this.patternVersion
     }
   }
 }
@@ -1,5 +1,10 @@
 import { db, UserFeedback } from './supabase'
 import { AppliedRule } from './compression/two-pass-engine'
+import { patternSnapshotCache } from './compression/pattern-snapshot'
+import { CONFIDENCE_THRESHOLDS, thresholdForMode, ConfidenceMode } from './confidence-thresholds'
+
+export { CONFIDENCE_MODES } from './confidence-thresholds'
+export type { ConfidenceMode } from './confidence-thresholds'
 
 export interface ConfidenceAdjustment {
   patternId: string
@@ -19,13 +24,18 @@ export interface ConfidenceStats {
   recentAdjustments: ConfidenceAdjustment[]
 }
 
+// Rule ids are row UUIDs from admin tools or text_hash values from applied rules
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
 export class ConfidenceSystem {
   // Confidence thresholds
-  private readonly CONFIDENCE_THRESHOLDS = {
-    CONSERVATIVE: 0.85,
-    DEFAULT: 0.70,
-    AGGRESSIVE: 0.40,
-    DISABLED: 0.30
+  static readonly CONFIDENCE_THRESHOLDS = CONFIDENCE_THRESHOLDS
+
+  /**
+   * Minimum confidence a rule needs to be applied in the given mode
+   */
+  static thresholdForMode(mode: ConfidenceMode): number {
+    return thresholdForMode(mode)
   }
 
   // Feedback adjustments
@@ -61,7 +71,9 @@ export class ConfidenceSystem {
       })
 
       // Update confidence for each applied rule
+      // Rule set entries are owned by their team - feedback only moves global rules
       for (const rule of rulesApplied) {
+        if (rule.ruleSetId) continue
         const adjustment = await this.updateRuleConfidence(rule.id, satisfied)
         if (adjustment) {
           adjustments.push(adjustment)
@@ -82,11 +94,11 @@ export class ConfidenceSystem {
    */
   async updateRuleConfidence(patternId: string, satisfied: boolean): Promise<ConfidenceAdjustment | null> {
     try {
-      // Get current confidence
+      // Applied rules carry the text_hash; admin tools use the row id
       const { data: pattern, error: fetchError } = await db.supabase
         .from('compressions')
-        .select('confidence_score')
-        .eq('id', patternId)
+        .select('id, confidence_score')
+        .eq(UUID_PATTERN.test(patternId) ? 'id' : 'text_hash', patternId)
         .single()
 
       if (fetchError) throw fetchError
@@ -95,7 +107,8 @@ export class ConfidenceSystem {
       const adjustment = satisfied ? this.FEEDBACK_ADJUSTMENTS.SATISFIED : this.FEEDBACK_ADJUSTMENTS.UNSATISFIED
 
       // Update confidence using database function
-      await db.updateConfidence(patternId, satisfied)
+      await db.updateConfidence(pattern.id, satisfied)
+      patternSnapshotCache.invalidate(`confidence update for ${patternId}`)
 
       const newConfidence = Math.max(0.00, Math.min(1.00, oldConfidence + adjustment))
 
@@ -122,20 +135,20 @@ export class ConfidenceSystem {
 
     switch (level) {
       case 'conservative':
-        minConfidence = this.CONFIDENCE_THRESHOLDS.CONSERVATIVE
+        minConfidence = ConfidenceSystem.CONFIDENCE_THRESHOLDS.CONSERVATIVE
         maxConfidence = 1.00
         break
       case 'default':
-        minConfidence = this.CONFIDENCE_THRESHOLDS.DEFAULT
-        maxConfidence = this.CONFIDENCE_THRESHOLDS.CONSERVATIVE - 0.01
+        minConfidence = ConfidenceSystem.CONFIDENCE_THRESHOLDS.DEFAULT
+        maxConfidence = ConfidenceSystem.CONFIDENCE_THRESHOLDS.CONSERVATIVE - 0.01
         break
       case 'aggressive':
-        minConfidence = this.CONFIDENCE_THRESHOLDS.AGGRESSIVE
-        maxConfidence = this.CONFIDENCE_THRESHOLDS.DEFAULT - 0.01
+        minConfidence = ConfidenceSystem.CONFIDENCE_THRESHOLDS.AGGRESSIVE
+        maxConfidence = ConfidenceSystem.CONFIDENCE_THRESHOLDS.DEFAULT - 0.01
         break
       case 'disabled':
         minConfidence = 0.00
-        maxConfidence = this.CONFIDENCE_THRESHOLDS.DISABLED - 0.01
+        maxConfidence = ConfidenceSystem.CONFIDENCE_THRESHOLDS.DISABLED - 0.01
         break
     }
 
@@ -162,13 +175,13 @@ export class ConfidenceSystem {
       if (error) throw error
 
       const totalPatterns = patterns.length
-      const activePatterns = patterns.filter(p => p.confidence_score >= this.CONFIDENCE_THRESHOLDS.DEFAULT).length
-      const conservativePatterns = patterns.filter(p => p.confidence_score >= this.CONFIDENCE_THRESHOLDS.CONSERVATIVE).length
+      const activePatterns = patterns.filter(p => p.confidence_score >= ConfidenceSystem.CONFIDENCE_THRESHOLDS.DEFAULT).length
+      const conservativePatterns = patterns.filter(p => p.confidence_score >= ConfidenceSystem.CONFIDENCE_THRESHOLDS.CONSERVATIVE).length
       const aggressivePatterns = patterns.filter(p =>
-        p.confidence_score >= this.CONFIDENCE_THRESHOLDS.AGGRESSIVE &&
-        p.confidence_score < this.CONFIDENCE_THRESHOLDS.DEFAULT
+        p.confidence_score >= ConfidenceSystem.CONFIDENCE_THRESHOLDS.AGGRESSIVE &&
+        p.confidence_score < ConfidenceSystem.CONFIDENCE_THRESHOLDS.DEFAULT
       ).length
-      const disabledPatterns = patterns.filter(p => p.confidence_score < this.CONFIDENCE_THRESHOLDS.DISABLED).length
+      const disabledPatterns = patterns.filter(p => p.confidence_score < ConfidenceSystem.CONFIDENCE_THRESHOLDS.DISABLED).length
 
       const averageConfidence = totalPatterns > 0
         ? patterns.reduce((sum, p) => sum + p.confidence_score, 0) / totalPatterns
@@ -208,10 +221,10 @@ export class ConfidenceSystem {
 
       return data.map(pattern => ({
         ...pattern,
-        reason: pattern.confidence_score < this.CONFIDENCE_THRESHOLDS.DISABLED
+        reason: pattern.confidence_score < ConfidenceSystem.CONFIDENCE_THRESHOLDS.DISABLED
           ? 'Auto-disabled due to low confidence'
           : 'Low confidence - needs review',
-        recommendedAction: pattern.confidence_score < this.CONFIDENCE_THRESHOLDS.DISABLED
+        recommendedAction: pattern.confidence_score < ConfidenceSystem.CONFIDENCE_THRESHOLDS.DISABLED
           ? 'delete'
           : 'review' as 'delete' | 'review' | 'adjust'
       }))
@@ -278,8 +291,8 @@ export class ConfidenceSystem {
       // Get current confidence
       const { data: pattern, error: fetchError } = await db.supabase
         .from('compressions')
-        .select('confidence_score')
-        .eq('id', patternId)
+        .select('id, confidence_score')
+        .eq(UUID_PATTERN.test(patternId) ? 'id' : 'text_hash', patternId)
         .single()
 
       if (fetchError) throw fetchError
@@ -291,9 +304,10 @@ export class ConfidenceSystem {
       const { error: updateError } = await db.supabase
         .from('compressions')
         .update({ confidence_score: newConfidence, updated_at: new Date().toISOString() })
-        .eq('id', patternId)
+        .eq('id', pattern.id)
 
       if (updateError) throw updateError
+      patternSnapshotCache.invalidate(`manual confidence adjustment for ${patternId}`)
 
       return {
         patternId,
@@ -317,7 +331,7 @@ export class ConfidenceSystem {
       const { data: lowConfidencePatterns, error } = await db.supabase
         .from('compressions')
         .select('id')
-        .lt('confidence_score', this.CONFIDENCE_THRESHOLDS.DISABLED)
+        .lt('confidence_score', ConfidenceSystem.CONFIDENCE_THRESHOLDS.DISABLED)
 
       if (error) throw error
 
@@ -333,6 +347,7 @@ export class ConfidenceSystem {
         .in('id', patternIds)
 
       if (updateError) throw updateError
+      patternSnapshotCache.invalidate(`auto-disabled ${patternIds.length} patterns`)
 
       console.log(`Auto-disabled ${patternIds.length} low-confidence patterns`)
       return patternIds
@@ -0,0 +1,30 @@
+/**
+ * Confidence Thresholds
+ * The confidence a rule needs in each mode. Kept free of imports so the compression
+ * engine and the pattern snapshot can read them without loading the confidence system.
+ */
+
+export type ConfidenceMode = 'conservative' | 'default' | 'aggressive'
+
+export const CONFIDENCE_MODES: ConfidenceMode[] = ['conservative', 'default', 'aggressive']
+
+export const CONFIDENCE_THRESHOLDS = {
+  CONSERVATIVE: 0.85,
+  DEFAULT: 0.70,
+  AGGRESSIVE: 0.40,
+  DISABLED: 0.30
+}
+
+/**
+ * Minimum confidence a rule needs to be applied in the given mode
+ */
+export function thresholdForMode(mode: ConfidenceMode): number {
+  switch (mode) {
+    case 'conservative':
+      return CONFIDENCE_THRESHOLDS.CONSERVATIVE
+    case 'aggressive':
+      return CONFIDENCE_THRESHOLDS.AGGRESSIVE
+    default:
+      return CONFIDENCE_THRESHOLDS.DEFAULT
+  }
+}
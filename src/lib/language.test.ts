@@ -0,0 +1,44 @@
+/**
+ * Test Suite for Language Detection
+ */
+
+import { detectLanguage, resolveLanguage, isSupportedLanguage } from './language'
+
+describe('Language Detection', () => {
+  test('should detect English, Spanish and German', () => {
+    expect(detectLanguage('Can you explain how the cache works with the database?').language).toBe('en')
+    expect(detectLanguage('¿Puedes explicar cómo funciona la caché con la base de datos?').language).toBe('es')
+    expect(detectLanguage('Kannst du mir erklären, wie der Cache mit der Datenbank funktioniert?').language).toBe('de')
+  })
+
+  test('should fall back to English when the text is too short', () => {
+    expect(detectLanguage('Hola')).toEqual({ language: 'en', confidence: 0, detected: false })
+  })
+
+  test('should not take English words for German', () => {
+    expect(detectLanguage('Was the die cast for you?').language).toBe('en')
+    expect(detectLanguage('What was the den like?').language).toBe('en')
+  })
+
+  test('should stay on English when another language barely leads', () => {
+    expect(detectLanguage('Check mir und the logs')).toEqual({ language: 'en', confidence: 0, detected: false })
+  })
+
+  test('should ignore code when detecting', () => {
+    const result = detectLanguage('Explica por favor este código: `const the = this.is(the).value`')
+
+    expect(result.language).toBe('es')
+    expect(result.detected).toBe(true)
+  })
+
+  test('should prefer a named language over detection', () => {
+    expect(resolveLanguage('Can you explain this?', 'de')).toEqual({ language: 'de', confidence: 1, detected: false })
+    expect(resolveLanguage('Can you explain this?', 'auto').language).toBe('en')
+  })
+
+  test('should validate language codes', () => {
+    expect(isSupportedLanguage('es')).toBe(true)
+    expect(isSupportedLanguage('fr')).toBe(false)
+    expect(isSupportedLanguage(undefined)).toBe(false)
+  })
+})
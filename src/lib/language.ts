@@ -0,0 +1,114 @@
+/**
+ * Language Detection
+ * Lightweight local detector for the languages compression has rules for.
+ * Scores common function words plus characters only one language uses -
+ * no external API, no model, a few microseconds per request.
+ */
+
+import { findProtectedRegions, maskRegions, LETTER_CHARS } from './text-utils'
+
+export type Language = 'en' | 'es' | 'de'
+
+export interface LanguageDetection {
+  language: Language
+  confidence: number  // Share of the language signal won by `language` (0.00-1.00)
+  detected: boolean   // False when the caller named the language or the text was too short or mixed to tell
+}
+
+export const SUPPORTED_LANGUAGES: Language[] = ['en', 'es', 'de']
+export const DEFAULT_LANGUAGE: Language = 'en'
+
+// Function words that are common in one language and rare in the others (lists are disjoint,
+// and German words that are also English words - "was", "die", "den" - are left out)
+const FUNCTION_WORDS: Record<Language, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'is', 'are', 'you', 'to', 'of', 'it', 'that', 'this', 'what', 'how', 'with',
+    'for', 'can', 'please', 'my', 'not', 'be', 'on', 'have', 'were', 'your', 'i', 'we', 'would'
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'y', 'que', 'de', 'en', 'un', 'una', 'por', 'para', 'con', 'se',
+    'lo', 'como', 'qué', 'cómo', 'puedes', 'mi', 'del', 'al', 'está', 'favor', 'pero', 'más', 'es'
+  ]),
+  de: new Set([
+    'der', 'das', 'und', 'ist', 'sind', 'nicht', 'ich', 'wir', 'sie', 'ein', 'eine', 'zu', 'oder',
+    'mit', 'auf', 'für', 'wie', 'aber', 'bitte', 'dem', 'von', 'kannst', 'mir', 'mich', 'auch'
+  ])
+}
+
+// Characters that give a language away on their own - each hit counts double
+const CHARACTER_HINTS: Record<Language, RegExp | null> = {
+  en: null,
+  es: /[ñ¿¡]/g,
+  de: /[äöüß]/g
+}
+
+// Below this many words the detector doesn't guess
+const MIN_WORDS = 3
+// Another language only wins over English by this many points and this share of the signal
+const MIN_MARGIN = 2
+const MIN_CONFIDENCE = 0.6
+// Long documents are judged on their opening
+const MAX_SAMPLE_CHARS = 10000
+
+const WORD_REGEX = new RegExp(`[${LETTER_CHARS}]+`, 'g')
+
+/**
+ * Check whether a value names a supported language
+ */
+export function isSupportedLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && SUPPORTED_LANGUAGES.indexOf(value as Language) !== -1
+}
+
+/**
+ * Detect the language of a text, falling back to English when there is too little to go on
+ * Code, URLs and JSON are ignored - their keywords are English whatever the prose is
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const sample = stripProtectedRegions((text || '').slice(0, MAX_SAMPLE_CHARS)).toLowerCase()
+  const words = sample.match(WORD_REGEX) || []
+
+  if (words.length < MIN_WORDS) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0, detected: false }
+  }
+
+  const scores = SUPPORTED_LANGUAGES.map(language => {
+    const wordHits = words.filter(word => FUNCTION_WORDS[language].has(word)).length
+    const hints = CHARACTER_HINTS[language]
+    const characterHits = hints ? (sample.match(hints) || []).length : 0
+    return { language, score: wordHits + characterHits * 2 }
+  })
+
+  const total = scores.reduce((sum, entry) => sum + entry.score, 0)
+  // Ties go to the earlier language in SUPPORTED_LANGUAGES (English first)
+  const best = scores.reduce((winner, entry) => (entry.score > winner.score ? entry : winner))
+
+  if (total === 0) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0, detected: false }
+  }
+
+  const confidence = Math.round((best.score / total) * 100) / 100
+  const defaultScore = (scores.find(entry => entry.language === DEFAULT_LANGUAGE) as { score: number }).score
+  // A few stray foreign words in English text are not enough to switch rule sets
+  if (best.language !== DEFAULT_LANGUAGE && (best.score - defaultScore < MIN_MARGIN || confidence < MIN_CONFIDENCE)) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0, detected: false }
+  }
+
+  return { language: best.language, confidence, detected: true }
+}
+
+/**
+ * Resolve the language a request should use - a named language wins over detection
+ */
+export function resolveLanguage(text: string, requested?: Language | 'auto'): LanguageDetection {
+  if (requested && requested !== 'auto') {
+    return { language: requested, confidence: 1, detected: false }
+  }
+  return detectLanguage(text)
+}
+
+/**
+ * Blank out code, URLs, paths and JSON
+ */
+function stripProtectedRegions(text: string): string {
+  return maskRegions(text, findProtectedRegions(text))
+}
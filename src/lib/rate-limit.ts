@@ -0,0 +1,93 @@
+import type { NextApiRequest } from 'next'
+
+// Rate limiting storage (in-memory - use Redis in production)
+// Shared by every compression route so one client has one budget
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
+
+// Rate limit configurations
+export const RATE_LIMITS = {
+  FREE_TIER: { requests: 10, windowMs: 60 * 1000 }, // 10 requests per minute
+  PREMIUM: { requests: 100, windowMs: 60 * 1000 }   // 100 requests per minute
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  resetTime: number
+  remaining: number
+  limit: number
+}
+
+/**
+ * Validate API key against environment variable
+ */
+export function validateApiKey(apiKey: string | undefined): boolean {
+  if (!apiKey) return false
+  return apiKey === process.env.API_SECRET_KEY
+}
+
+/**
+ * Validate an admin key against environment variable - admin routes stay closed until one is set
+ */
+export function validateAdminKey(adminKey: string | undefined): boolean {
+  if (!adminKey || !process.env.ADMIN_SECRET_KEY) return false
+  return adminKey === process.env.ADMIN_SECRET_KEY
+}
+
+/**
+ * Most request units one request can cost on a tier - anything heavier never fits a window
+ */
+export function maxRequestCost(isPremium: boolean): number {
+  return (isPremium ? RATE_LIMITS.PREMIUM : RATE_LIMITS.FREE_TIER).requests
+}
+
+/**
+ * Check and update rate limits for an IP address
+ * `cost` lets heavier requests (e.g. batches) consume several request units
+ */
+export function checkRateLimit(ip: string, isPremium: boolean, cost: number = 1): RateLimitResult {
+  const now = Date.now()
+  const config = isPremium ? RATE_LIMITS.PREMIUM : RATE_LIMITS.FREE_TIER
+
+  // Clean up expired entries
+  rateLimitMap.forEach((value, key) => {
+    if (now > value.resetTime) {
+      rateLimitMap.delete(key)
+    }
+  })
+
+  const existing = rateLimitMap.get(ip)
+
+  if (!existing || now > existing.resetTime) {
+    // First request in window or window has expired
+    if (cost > config.requests) {
+      return { allowed: false, resetTime: now + config.windowMs, remaining: config.requests, limit: config.requests }
+    }
+    const resetTime = now + config.windowMs
+    rateLimitMap.set(ip, { count: cost, resetTime })
+    return { allowed: true, resetTime, remaining: config.requests - cost, limit: config.requests }
+  }
+
+  if (existing.count + cost > config.requests) {
+    // Rate limit exceeded
+    return {
+      allowed: false,
+      resetTime: existing.resetTime,
+      remaining: config.requests - existing.count,
+      limit: config.requests
+    }
+  }
+
+  // Increment count
+  existing.count += cost
+  rateLimitMap.set(ip, existing)
+  return { allowed: true, resetTime: existing.resetTime, remaining: config.requests - existing.count, limit: config.requests }
+}
+
+/**
+ * Get client IP for rate limiting
+ */
+export function getClientIP(req: NextApiRequest): string {
+  const forwarded = req.headers['x-forwarded-for']
+  const ip = (typeof forwarded === 'string' ? forwarded.split(',')[0] : req.socket.remoteAddress) || 'unknown'
+  return ip.trim()
+}
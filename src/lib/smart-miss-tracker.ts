@@ -1,37 +1,86 @@
 import { db } from './supabase'
-import { getCleanWordForMatching } from './text-utils'
+import { getCleanWordForMatching, LETTER_CHARS } from './text-utils'
+import { Language, DEFAULT_LANGUAGE } from './language'
 
 /**
  * Smart Miss Tracker - Intelligent filtering for meaningful compression patterns
  * Only logs high-value misses that could become useful compression rules
  */
 
-// Skip lists for common words that shouldn't be logged
-const SKIP_WORDS = new Set([
-  // Articles
-  'a', 'an', 'the',
+// Skip lists for common words that shouldn't be logged, per language
+const SKIP_WORDS: Record<Language, Set<string>> = {
+  en: new Set([
+    // Articles
+    'a', 'an', 'the',
 
-  // Prepositions
-  'for', 'to', 'at', 'in', 'on', 'of', 'by', 'with', 'from', 'up', 'out', 'off',
+    // Prepositions
+    'for', 'to', 'at', 'in', 'on', 'of', 'by', 'with', 'from', 'up', 'out', 'off',
 
-  // Common verbs
-  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
+    // Common verbs
+    'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
 
-  // Pronouns
-  'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
+    // Pronouns
+    'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
 
-  // Common conjunctions/connectors
-  'and', 'or', 'but', 'so', 'if', 'as', 'that', 'this', 'these', 'those',
+    // Common conjunctions/connectors
+    'and', 'or', 'but', 'so', 'if', 'as', 'that', 'this', 'these', 'those',
 
-  // Single letters & very short
-  'a', 'i', 'am', 'my', 'no', 'go', 'so', 'do', 'to', 'we', 'me', 'he',
+    // Single letters & very short
+    'a', 'i', 'am', 'my', 'no', 'go', 'so', 'do', 'to', 'we', 'me', 'he',
 
-  // Common question words (usually context-specific)
-  'who', 'what', 'when', 'where', 'why', 'how',
+    // Common question words (usually context-specific)
+    'who', 'what', 'when', 'where', 'why', 'how',
 
-  // Time markers (too generic)
-  'now', 'then', 'here', 'there'
-])
+    // Time markers (too generic)
+    'now', 'then', 'here', 'there'
+  ]),
+
+  es: new Set([
+    // Articles
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'lo',
+
+    // Prepositions and contractions
+    'a', 'al', 'de', 'del', 'en', 'con', 'por', 'para', 'sin', 'sobre', 'entre', 'hasta', 'desde',
+
+    // Common verbs
+    'es', 'son', 'era', 'fue', 'ser', 'estar', 'está', 'están', 'hay', 'ha', 'he', 'han', 'tiene', 'tengo',
+
+    // Pronouns
+    'yo', 'tú', 'tu', 'él', 'ella', 'nosotros', 'ellos', 'ellas', 'me', 'te', 'se', 'le', 'les', 'nos', 'mi', 'su',
+
+    // Conjunctions/connectors
+    'y', 'e', 'o', 'u', 'pero', 'que', 'si', 'como', 'este', 'esta', 'esto', 'ese', 'esa', 'eso',
+
+    // Question words
+    'qué', 'quién', 'cuándo', 'dónde', 'cómo', 'cuál',
+
+    // Time markers
+    'ahora', 'luego', 'aquí', 'allí', 'ya', 'no', 'sí', 'muy', 'más'
+  ]),
+
+  de: new Set([
+    // Articles
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'eines',
+
+    // Prepositions
+    'an', 'auf', 'aus', 'bei', 'für', 'in', 'im', 'mit', 'nach', 'von', 'vom', 'zu', 'zum', 'zur', 'über', 'um',
+
+    // Common verbs
+    'ist', 'sind', 'war', 'waren', 'sein', 'hat', 'haben', 'habe', 'wird', 'werden', 'kann', 'können',
+
+    // Pronouns
+    'ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr', 'mich', 'mir', 'dich', 'dir', 'uns', 'euch', 'mein', 'dein',
+
+    // Conjunctions/connectors
+    'und', 'oder', 'aber', 'wenn', 'dass', 'als', 'wie', 'so', 'auch', 'dies', 'diese', 'dieser', 'dieses',
+
+    // Question words
+    'wer', 'was', 'wann', 'wo', 'warum', 'welche',
+
+    // Time markers
+    'jetzt', 'dann', 'hier', 'dort', 'nicht', 'noch', 'schon', 'sehr'
+  ])
+}
 
 // High-value word patterns that should be logged
 const HIGH_VALUE_PATTERNS = {
@@ -48,10 +97,25 @@ const HIGH_VALUE_PATTERNS = {
   ABBREVIABLE: /^(please|document|application|information|technology|government|organization|administration|environment|development|management|department|university|community|individual|professional|commercial|international|educational|traditional)$/i
 }
 
+// Common multi-word expressions outside English
+const LOCALIZED_PHRASE_PATTERNS: Record<Exclude<Language, 'en'>, RegExp[]> = {
+  es: [
+    /por favor/i, /por ejemplo/i, /sin embargo/i, /es decir/i, /tal vez/i, /de nuevo/i,
+    /lo antes posible/i, /a partir de/i, /en cuanto/i, /muchas gracias/i, /hoy en día/i
+  ],
+  de: [
+    /zum beispiel/i, /das heißt/i, /vielen dank/i, /so schnell wie möglich/i, /unter anderem/i,
+    /in der regel/i, /mit freundlichen grüßen/i, /im voraus/i, /auf jeden fall/i
+  ]
+}
+
+// Anything that is neither a letter (accented ones included), a digit nor whitespace
+const SPECIAL_CHARACTER_REGEX = new RegExp(`[^${LETTER_CHARS}0-9_\\s]`)
+
 // Phrase quality scoring
 const PHRASE_QUALITY_RULES = {
   // High value 2-6 word phrases (but stricter quality for longer phrases)
-  isHighValuePhrase(phrase: string): boolean {
+  isHighValuePhrase(phrase: string, language: Language = DEFAULT_LANGUAGE): boolean {
     const words = phrase.split(' ')
 
     // Must be 2-6 words
@@ -75,21 +139,24 @@ const PHRASE_QUALITY_RULES = {
       /make sure you have everything you need/i, /as long as it takes/i
     ]
 
+    const patterns = language === 'en' ? commonPatterns : LOCALIZED_PHRASE_PATTERNS[language]
+
     // For longer phrases (4+ words), be more selective
     if (words.length >= 4) {
-      return commonPatterns.some(pattern => pattern.test(phrase))
+      return patterns.some(pattern => pattern.test(phrase))
     }
 
     // For shorter phrases (2-3 words), more lenient
-    return commonPatterns.some(pattern => pattern.test(phrase))
+    return patterns.some(pattern => pattern.test(phrase))
   },
 
   // Skip overly specific or low-value phrases
-  shouldSkipPhrase(phrase: string): boolean {
+  shouldSkipPhrase(phrase: string, language: Language = DEFAULT_LANGUAGE): boolean {
     const words = phrase.split(' ')
+    const skipWords = SKIP_WORDS[language]
 
-    // Skip if contains numbers or special characters
-    if (/\d|[^\w\s]/g.test(phrase)) return true
+    // Skip if contains numbers or special characters (accented letters are fine)
+    if (/\d/.test(phrase) || SPECIAL_CHARACTER_REGEX.test(phrase)) return true
 
     // Skip if too long (7+ words are usually too specific)
     if (words.length > 6) return true
@@ -97,12 +164,12 @@ const PHRASE_QUALITY_RULES = {
     // For longer phrases (4-6 words), apply stricter quality checks
     if (words.length >= 4) {
       // Must contain at least one non-common word for longer phrases
-      const hasValueWords = words.some(word => !SKIP_WORDS.has(word.toLowerCase()) && word.length > 3)
+      const hasValueWords = words.some(word => !skipWords.has(word.toLowerCase()) && word.length > 3)
       if (!hasValueWords) return true
     }
 
     // Skip if all words are in skip list
-    if (words.every(word => SKIP_WORDS.has(word.toLowerCase()))) return true
+    if (words.every(word => skipWords.has(word.toLowerCase()))) return true
 
     // Skip proper nouns (capitalized words that aren't sentence start)
     const properNouns = words.filter((word, index) =>
@@ -130,7 +197,8 @@ export class SmartMissTracker {
   async trackSmartMisses(
     originalText: string,
     tokens: Array<{ text: string, processed: boolean }>,
-    appliedRules: Array<{ originalText: string }>
+    appliedRules: Array<{ originalText: string }>,
+    language: Language = DEFAULT_LANGUAGE
   ): Promise<SmartMissResult> {
 
     const result: SmartMissResult = {
@@ -148,10 +216,10 @@ export class SmartMissTracker {
     const words = unprocessedTokens.map(t => getCleanWordForMatching(t.text))
 
     // 1. SMART WORD TRACKING
-    await this.trackSmartWords(words, appliedTexts, originalText, result)
+    await this.trackSmartWords(words, appliedTexts, originalText, language, result)
 
     // 2. SMART PHRASE TRACKING
-    await this.trackSmartPhrases(words, appliedTexts, originalText, result)
+    await this.trackSmartPhrases(words, appliedTexts, originalText, language, result)
 
     console.log(`📊 Smart Miss Summary: ${result.wordsLogged} words, ${result.phrasesLogged} phrases logged | ${result.wordsSkipped} words, ${result.phrasesSkipped} phrases skipped`)
 
@@ -165,6 +233,7 @@ export class SmartMissTracker {
     words: string[],
     appliedTexts: Set<string>,
     originalText: string,
+    language: Language,
     result: SmartMissResult
   ) {
     const uniqueWords = Array.from(new Set(words))
@@ -174,7 +243,7 @@ export class SmartMissTracker {
       if (appliedTexts.has(word)) continue
 
       // Skip if in skip list
-      if (SKIP_WORDS.has(word)) {
+      if (SKIP_WORDS[language].has(word)) {
         result.wordsSkipped++
         continue
       }
@@ -193,7 +262,7 @@ export class SmartMissTracker {
 
       // LOG THIS HIGH-VALUE WORD
       try {
-        await db.logMiss(word, 'word', [originalText])
+        await db.logMiss(word, 'word', [originalText], language)
         result.wordsLogged++
         result.loggedItems.push({
           text: word,
@@ -214,6 +283,7 @@ export class SmartMissTracker {
     words: string[],
     appliedTexts: Set<string>,
     originalText: string,
+    language: Language,
     result: SmartMissResult
   ) {
     // Generate 2-word through 6-word phrases
@@ -234,20 +304,20 @@ export class SmartMissTracker {
       if (appliedTexts.has(phrase)) continue
 
       // Skip low-value phrases
-      if (PHRASE_QUALITY_RULES.shouldSkipPhrase(phrase)) {
+      if (PHRASE_QUALITY_RULES.shouldSkipPhrase(phrase, language)) {
         result.phrasesSkipped++
         continue
       }
 
       // Only log high-value phrases
-      if (!PHRASE_QUALITY_RULES.isHighValuePhrase(phrase)) {
+      if (!PHRASE_QUALITY_RULES.isHighValuePhrase(phrase, language)) {
         result.phrasesSkipped++
         continue
       }
 
       // LOG THIS HIGH-VALUE PHRASE
       try {
-        await db.logMiss(phrase, 'phrase', [originalText])
+        await db.logMiss(phrase, 'phrase', [originalText], language)
         result.phrasesLogged++
         result.loggedItems.push({
           text: phrase,
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { CasePolicy } from './compression/case-policy'
 
 // Get environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -27,7 +28,7 @@ export interface CompressionPattern {
   compressed_form: string
   text_hash: string               // UNIQUE in your table
   compression_type: string
-  context?: string
+  context?: string                // JSON rule conditions (database/add-rule-conditions.sql) or a free-text note
   confidence_score?: number
   usage_count: number             // DEFAULT 0 in your table
   created_date?: string           // Your table uses created_date, not created_at
@@ -43,6 +44,10 @@ export interface CompressionPattern {
   positive_feedback?: number
   negative_feedback?: number
   compression_rule?: string
+  language?: string               // 'en' | 'es' | 'de' - DEFAULT 'en' (database/add-language.sql)
+  inflect?: boolean               // Word rule also matches inflected forms - DEFAULT false (database/add-inflection.sql)
+  case_policy?: CasePolicy        // How the compressed form is cased - DEFAULT 'auto' (database/add-case-policy.sql)
+  rule_set_id?: string            // Not a column - set on overrides served from a rule set
 }
 
 export interface MissLogEntry {
@@ -57,6 +62,27 @@ export interface MissLogEntry {
   last_seen: string
   admin_reviewed: boolean
   review_notes: string | null
+  language?: string               // Language of the text the miss came from
+}
+
+export interface RuleSet {
+  id: string
+  name: string
+  description: string | null
+  owner_key_hash: string | null   // MD5 of the owning API key
+  owner_session: string | null    // Owning session when created without an API key
+  created_at: string
+  updated_at: string
+}
+
+export interface RuleSetRule {
+  id: string
+  rule_set_id: string
+  original_text: string
+  compressed_form: string | null  // null for exclusions
+  action: 'override' | 'exclude'
+  confidence_score: number
+  created_at: string
 }
 
 export interface UserFeedback {
@@ -94,11 +120,12 @@ export const db = {
     return data as CompressionPattern[]
   },
 
-  async getPatternByText(text: string) {
+  async getPatternByText(text: string, language: string = 'en') {
     const { data, error } = await supabase
       .from('compressions')
       .select('*')
       .eq('original_text', text)
+      .eq('language', language)
       .single()
 
     if (error && error.code !== 'PGRST116') throw error
@@ -117,17 +144,18 @@ export const db = {
   },
 
   // Miss tracking
-  async logMiss(wordPhrase: string, type: 'word' | 'phrase', context: string[] = []) {
+  async logMiss(wordPhrase: string, type: 'word' | 'phrase', context: string[] = [], language: string = 'en') {
     const { data, error } = await supabase
       .from('miss_log')
       .upsert({
         word_phrase: wordPhrase,
         miss_type: type,
+        language,
         token_count: wordPhrase.split(' ').length,
         context_examples: context,
         last_seen: new Date().toISOString(),
       }, {
-        onConflict: 'word_phrase',
+        onConflict: 'word_phrase,language',   // The same text is a separate miss in each language
         ignoreDuplicates: false,
       })
       .select()
@@ -153,6 +181,88 @@ export const db = {
     return data as MissLogEntry[]
   },
 
+  // Rule sets (personal dictionaries)
+  async getRuleSet(id: string) {
+    const { data, error } = await supabase
+      .from('rule_sets')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error && error.code !== 'PGRST116') throw error
+    return data as RuleSet | null
+  },
+
+  async listRuleSets(owner: { column: 'owner_key_hash' | 'owner_session'; value: string }) {
+    const { data, error } = await supabase
+      .from('rule_sets')
+      .select('*')
+      .eq(owner.column, owner.value)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data as RuleSet[]
+  },
+
+  async createRuleSet(ruleSet: Pick<RuleSet, 'name' | 'description' | 'owner_key_hash' | 'owner_session'>) {
+    const { data, error } = await supabase
+      .from('rule_sets')
+      .insert(ruleSet)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data as RuleSet
+  },
+
+  async deleteRuleSet(id: string) {
+    const { error } = await supabase
+      .from('rule_sets')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  async getRuleSetRules(ruleSetId: string) {
+    const { data, error } = await supabase
+      .from('rule_set_rules')
+      .select('*')
+      .eq('rule_set_id', ruleSetId)
+
+    if (error) throw error
+    return data as RuleSetRule[]
+  },
+
+  async upsertRuleSetRules(rules: Omit<RuleSetRule, 'id' | 'created_at'>[]) {
+    const { error } = await supabase
+      .from('rule_set_rules')
+      .upsert(rules, { onConflict: 'rule_set_id,original_text' })
+
+    if (error) throw error
+    await this.touchRuleSet(rules[0].rule_set_id)
+  },
+
+  async deleteRuleSetRules(ruleSetId: string, originalTexts: string[]) {
+    const { error } = await supabase
+      .from('rule_set_rules')
+      .delete()
+      .eq('rule_set_id', ruleSetId)
+      .in('original_text', originalTexts)
+
+    if (error) throw error
+    await this.touchRuleSet(ruleSetId)
+  },
+
+  async touchRuleSet(id: string) {
+    const { error } = await supabase
+      .from('rule_sets')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
   // User feedback
   async submitFeedback(feedback: Omit<UserFeedback, 'id' | 'created_at'>) {
     const { data, error } = await supabase
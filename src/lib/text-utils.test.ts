@@ -0,0 +1,112 @@
+/**
+ * Test Suite for Text Utilities - protected region detection
+ */
+
+import { extractCleanWords, findProtectedRegions, splitIntoChunks } from './text-utils'
+
+describe('Text Utilities', () => {
+  describe('findProtectedRegions', () => {
+    test('should detect fenced and inline code', () => {
+      const text = 'run `npm test` then\n```\nnpm run build\n```'
+      const kinds = findProtectedRegions(text).map(region => [region.kind, text.slice(region.start, region.end)])
+
+      expect(kinds).toEqual([
+        ['inline_code', '`npm test`'],
+        ['code_block', '```\nnpm run build\n```']
+      ])
+    })
+
+    test('should treat an unterminated fence as running to the end', () => {
+      const text = 'see ```\nconst a = 1'
+      const regions = findProtectedRegions(text)
+
+      expect(regions).toHaveLength(1)
+      expect(regions[0]).toEqual({ start: 4, end: text.length, kind: 'code_block' })
+    })
+
+    test('should detect URLs and file paths but not slashed words', () => {
+      const text = 'open www.site.org, ./src/index.ts and C:\\temp\\a.txt and/or he/she'
+      const found = findProtectedRegions(text).map(region => text.slice(region.start, region.end))
+
+      expect(found).toEqual(['www.site.org,', './src/index.ts', 'C:\\temp\\a.txt'])
+    })
+
+    test('should detect JSON objects with keys', () => {
+      const text = 'send {"name": "a b", "tags": [1, 2]} but not {braces} or [1, 2]'
+      const regions = findProtectedRegions(text)
+
+      expect(regions).toHaveLength(1)
+      expect(text.slice(regions[0].start, regions[0].end)).toBe('{"name": "a b", "tags": [1, 2]}')
+      expect(regions[0].kind).toBe('json')
+    })
+
+    test('should find JSON inside brackets that never close', () => {
+      const text = '[draft: see {"id": 1} and [{"id": 2}] then'
+      const found = findProtectedRegions(text).map(region => text.slice(region.start, region.end))
+
+      expect(found).toEqual(['{"id": 1}', '[{"id": 2}]'])
+    })
+
+    test('should scan long runs of unbalanced brackets quickly', () => {
+      const text = `${'[{'.repeat(20000)} and {"id": 1}`
+      const started = Date.now()
+      const found = findProtectedRegions(text).map(region => text.slice(region.start, region.end))
+
+      expect(found).toEqual(['{"id": 1}'])
+      expect(Date.now() - started).toBeLessThan(1000)
+    })
+  })
+
+  describe('extractCleanWords', () => {
+    test('should turn a protected region into one token with its punctuation', () => {
+      const words = extractCleanWords('call (`foo  bar`), then stop')
+
+      expect(words.map(word => word.original)).toEqual(['call', '(`foo  bar`),', 'then', 'stop'])
+      expect(words[1].protectedKind).toBe('inline_code')
+      expect(words[2].protectedKind).toBeUndefined()
+    })
+
+    test('should keep newlines inside code blocks', () => {
+      const words = extractCleanWords('code:\n```\na\n\n  b\n```')
+
+      expect(words).toHaveLength(2)
+      expect(words[1].original).toBe('```\na\n\n  b\n```')
+    })
+  })
+
+  describe('Unicode words', () => {
+    test('should keep accented letters inside words', () => {
+      const words = extractCleanWords('¿Qué significa «über»? Straße, niño')
+
+      expect(words.map(word => word.clean)).toEqual(['qué', 'significa', 'über', 'straße', 'niño'])
+      expect(words[0].leadingPunctuation).toBe('¿')
+      expect(words[2].leadingPunctuation).toBe('«')
+    })
+  })
+
+  describe('splitIntoChunks', () => {
+    test('should reproduce the input exactly', () => {
+      const text = 'First sentence here. Second one follows!\n\nNew paragraph with more words in it. End.'
+      const chunks = splitIntoChunks(text, 30)
+
+      expect(chunks.join('')).toBe(text)
+      expect(chunks.every(chunk => chunk.length <= 30)).toBe(true)
+    })
+
+    test('should prefer paragraph, then sentence boundaries', () => {
+      const chunks = splitIntoChunks('One two three. Four five\n\nSix seven eight nine', 30)
+
+      expect(chunks[0]).toBe('One two three. Four five')
+      expect(splitIntoChunks('One two three four. Five six seven eight', 30)[0]).toBe('One two three four.')
+    })
+
+    test('should never cut through a code block', () => {
+      const code = '```\nline one\nline two\nline three\n```'
+      const text = `Intro words ${code} outro words`
+      const chunks = splitIntoChunks(text, 20)
+
+      expect(chunks.join('')).toBe(text)
+      expect(chunks.some(chunk => chunk.includes(code))).toBe(true)
+    })
+  })
+})
@@ -8,26 +8,55 @@ export interface CleanWord {
   original: string           // Original word with punctuation
   leadingPunctuation: string // Punctuation before the word
   trailingPunctuation: string // Punctuation after the word
+  protectedKind?: ProtectedKind // Set when the text must pass through byte-for-byte
+  whitespaceBefore?: string  // Exact whitespace separating this word from the previous one
 }
 
-// Punctuation patterns
-const PUNCTUATION_REGEX = /[.,!?:;"'()\[\]{}\-—…*#@$%^&+=<>|\\\/~`]/g
-const TRAILING_PUNCTUATION_REGEX = /[.,!?:;"')\]}]$/
-const LEADING_PUNCTUATION_REGEX = /^["'(\[{]/
+export type ProtectedKind = 'code_block' | 'inline_code' | 'url' | 'file_path' | 'json'
+
+export interface ProtectedRegion {
+  start: number              // Character offset (inclusive)
+  end: number                // Character offset (exclusive)
+  kind: ProtectedKind
+}
+
+// Letters in Latin (with accents), Greek and Cyrillic scripts - \w is ASCII-only and the
+// ES5 target rules out the `u` flag, so regexes that mean "a letter" are built from this
+export const LETTER_CHARS = 'A-Za-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u024F\\u0370-\\u03FF\\u0400-\\u04FF\\u1E00-\\u1EFF'
+const WORD_CHARS = `${LETTER_CHARS}0-9_`
+
+// Punctuation patterns (including Spanish ¿ ¡ and typographic quotes)
+const PUNCTUATION_REGEX = /[.,!?:;"'()\[\]{}\-—…*#@$%^&+=<>|\\\/~`¿¡«»„“”‘’‹›]/g
+const TRAILING_PUNCTUATION_REGEX = /[.,!?:;"')\]}»“”’›]$/
+const LEADING_PUNCTUATION_REGEX = /^["'(\[{¿¡«„“‘‹]/
 
 // Special cases to preserve
 const CONTRACTION_PATTERNS = [
-  /\b\w+'\w+\b/g,           // don't, won't, it's, you're
-  /\b\w+'s\b/g,             // possessives: John's, car's
-  /\b\w+'re\b/g,            // you're, they're
-  /\b\w+'ll\b/g,            // you'll, we'll
-  /\b\w+'ve\b/g,            // I've, you've
-  /\b\w+'d\b/g,             // I'd, you'd
+  new RegExp(`[${WORD_CHARS}]['’][${WORD_CHARS}]`)  // don't, it's, John's, you're, I'd, l'été
+]
+
+// Protected regions - code, links and data that compression must not touch
+const FENCED_CODE_REGEX = /```[\s\S]*?(?:```|$)/g       // ```js ... ``` (unterminated runs to the end)
+const INLINE_CODE_REGEX = /`[^`\n]+`/g                   // `document.getElementById`
+const URL_TOKEN_REGEX = /(?:[a-z][a-z0-9+.-]*:\/\/|www\.)\S+/i   // https://example.com, www.site.org
+const FILE_PATH_TOKEN_REGEX = new RegExp([
+  '^(?:[A-Za-z]:\\\\|~/|\\.{1,2}/|/(?=[\\w.-]))\\S*$',  // /usr/bin, ./src, ~/x, C:\\dir
+  '^[\\w.-]+(?:/[\\w.-]+){2,}$',                          // src/lib/utils
+  '^[\\w.-]+(?:/[\\w.-]+)+\\.[A-Za-z0-9]{1,8}$'          // lib/text-utils.ts
+].join('|'))
+const TOKEN_EDGE_PUNCTUATION = /^[("'\[<]+|[)"'\]>.,;:!?]+$/g
+const MAX_JSON_SCAN = 5000
+
+// Chunk boundaries for long documents, best first - each returns the index a chunk may end at
+const CHUNK_BOUNDARIES: { regex: RegExp; cutAt: (match: RegExpExecArray) => number }[] = [
+  { regex: /\n[ \t]*\n/g, cutAt: match => match.index },                                // paragraph break
+  { regex: /[.!?]["')\]]*\s/g, cutAt: match => match.index + match[0].length - 1 },     // sentence end
+  { regex: /\s/g, cutAt: match => match.index }                                          // any whitespace
 ]
 
 const DECIMAL_PATTERN = /^\d+\.\d+$/        // 3.14, 10.5
-const URL_PATTERN = /\w+\.\w+/              // site.com, example.org
-const COMPOUND_WORD_PATTERN = /^\w+-\w+$/   // twenty-one, well-known
+const URL_PATTERN = new RegExp(`[${WORD_CHARS}]+\\.[${WORD_CHARS}]+`)           // site.com, example.org
+const COMPOUND_WORD_PATTERN = new RegExp(`^[${WORD_CHARS}]+-[${WORD_CHARS}]+$`)  // twenty-one, well-known, E-Mail-Adresse
 
 /**
  * Extract and clean a single word, preserving punctuation info
@@ -108,25 +137,279 @@ function isSpecialCase(word: string): boolean {
   return false
 }
 
+/**
+ * Find spans that must survive compression byte-for-byte:
+ * fenced code blocks, inline code, JSON, URLs and file paths
+ */
+export function findProtectedRegions(text: string): ProtectedRegion[] {
+  if (!text) return []
+
+  const regions: ProtectedRegion[] = []
+  let masked = text
+
+  // Code first - anything inside a code span is already protected
+  collectMatches(masked, FENCED_CODE_REGEX, 'code_block', regions)
+  masked = maskRegions(text, regions)
+  collectMatches(masked, INLINE_CODE_REGEX, 'inline_code', regions)
+  masked = maskRegions(text, regions)
+
+  findJsonRegions(masked).forEach(region => regions.push(region))
+  masked = maskRegions(text, regions)
+
+  // URLs and paths are protected a whole whitespace token at a time
+  const tokenRegex = /\S+/g
+  let match: RegExpExecArray | null
+  while ((match = tokenRegex.exec(masked)) !== null) {
+    const token = match[0]
+    const core = token.replace(TOKEN_EDGE_PUNCTUATION, '')
+    const kind: ProtectedKind | null = URL_TOKEN_REGEX.test(token)
+      ? 'url'
+      : FILE_PATH_TOKEN_REGEX.test(core) ? 'file_path' : null
+    if (kind) {
+      regions.push({ start: match.index, end: match.index + token.length, kind })
+    }
+  }
+
+  return regions.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Record every match of a global regex as a protected region
+ */
+function collectMatches(text: string, regex: RegExp, kind: ProtectedKind, regions: ProtectedRegion[]) {
+  regex.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++
+      continue
+    }
+    regions.push({ start: match.index, end: match.index + match[0].length, kind })
+  }
+}
+
+/**
+ * Blank out already-protected spans so later detectors skip them
+ */
+export function maskRegions(text: string, regions: ProtectedRegion[]): string {
+  const pieces: string[] = []
+  let cursor = 0
+  regions.slice().sort((a, b) => a.start - b.start).forEach(region => {
+    if (region.end <= cursor) return
+    const start = Math.max(cursor, region.start)
+    pieces.push(text.slice(cursor, start), ' '.repeat(region.end - start))
+    cursor = region.end
+  })
+  pieces.push(text.slice(cursor))
+  return pieces.join('')
+}
+
+interface BracketScan {
+  end: number                                  // Index just past the closing bracket, or -1
+  resume: number                               // Where the next scan starts when this one failed
+  blocks: Array<{ start: number; end: number }>  // Balanced blocks closed on the way
+}
+
+/**
+ * Find balanced {...} / [...] blocks that contain at least one "key": pair
+ * Each bracket is scanned once - a failed scan hands back the blocks it closed on the way
+ */
+function findJsonRegions(text: string): ProtectedRegion[] {
+  const regions: ProtectedRegion[] = []
+  const isJson = (start: number, end: number) => /"\s*:/.test(text.slice(start, end))
+
+  let i = 0
+  while (i < text.length) {
+    if (text[i] !== '{' && text[i] !== '[') {
+      i++
+      continue
+    }
+
+    const scan = scanBrackets(text, i)
+    if (scan.end > 0) {
+      // Nothing inside a block without a key pair has one either
+      if (isJson(i, scan.end)) regions.push({ start: i, end: scan.end, kind: 'json' })
+      i = scan.end
+      continue
+    }
+
+    // Brackets the scan left open fail at the same place - only the blocks it closed can be JSON
+    let taken = i + 1
+    scan.blocks.sort((a, b) => a.start - b.start).forEach(block => {
+      if (block.start >= taken && block.start < scan.resume && isJson(block.start, block.end)) {
+        regions.push({ start: block.start, end: block.end, kind: 'json' })
+        taken = block.end
+      }
+    })
+    i = Math.max(scan.resume, taken)
+  }
+
+  return regions
+}
+
+/**
+ * Scan from the bracket at `start` to the one closing it
+ */
+function scanBrackets(text: string, start: number): BracketScan {
+  const limit = Math.min(text.length, start + MAX_JSON_SCAN)
+  const stack: Array<{ closer: string; start: number }> = []
+  const blocks: Array<{ start: number; end: number }> = []
+  let inString = false
+  let quotedBracket = -1  // A scan from a bracket inside quotes reads the quotes the other way round
+
+  const failed = (at: number): BracketScan => ({
+    end: -1,
+    resume: quotedBracket === -1 ? at : Math.min(at, quotedBracket),
+    blocks
+  })
+
+  for (let i = start; i < limit; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+      else if (quotedBracket === -1 && (char === '{' || char === '[')) quotedBracket = i
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      stack.push({ closer: char === '{' ? '}' : ']', start: i })
+    } else if (char === '}' || char === ']') {
+      const open = stack.pop()
+      if (!open || open.closer !== char) return failed(i + 1)
+      if (stack.length === 0) return { end: i + 1, resume: i + 1, blocks }
+      blocks.push({ start: open.start, end: i + 1 })
+    }
+  }
+
+  return failed(limit)
+}
+
 /**
  * Extract clean words from text for compression processing
+ * Protected regions become single tokens (with any punctuation touching them)
  */
 export function extractCleanWords(text: string): CleanWord[] {
   if (!text || text.trim().length === 0) {
     return []
   }
 
-  // Split on whitespace to get raw tokens
-  const rawTokens = text.trim().split(/\s+/).filter(token => token.length > 0)
+  const regions = findProtectedRegions(text)
+
+  // Split on whitespace to get raw tokens, keeping their offsets
+  const rawTokens: { text: string; start: number; end: number }[] = []
+  const tokenRegex = /\S+/g
+  let match: RegExpExecArray | null
+  while ((match = tokenRegex.exec(text)) !== null) {
+    rawTokens.push({ text: match[0], start: match.index, end: match.index + match[0].length })
+  }
 
-  // Process each token to extract clean words
-  const cleanWords = rawTokens.map(cleanWord).filter(word => word.clean.length > 0)
+  const cleanWords: CleanWord[] = []
+  let regionIndex = 0
+  let previousEnd = -1
+
+  for (let i = 0; i < rawTokens.length; i++) {
+    const token = rawTokens[i]
+    const whitespaceBefore = previousEnd < 0 ? '' : text.slice(previousEnd, token.start)
+    while (regionIndex < regions.length && regions[regionIndex].end <= token.start) {
+      regionIndex++
+    }
 
+    const region = regions[regionIndex]
+    if (!region || region.start >= token.end) {
+      cleanWords.push({ ...cleanWord(token.text), whitespaceBefore })
+      previousEnd = token.end
+      continue
+    }
+
+    // Absorb every whitespace token the protected region (or a region chained to it) touches
+    let coverEnd = token.end
+    let unitEnd = token.end
+    while (regionIndex < regions.length && regions[regionIndex].start < coverEnd) {
+      coverEnd = Math.max(coverEnd, regions[regionIndex].end)
+      regionIndex++
+      while (i + 1 < rawTokens.length && rawTokens[i + 1].start < coverEnd) {
+        i++
+        unitEnd = rawTokens[i].end
+        coverEnd = Math.max(coverEnd, unitEnd)
+      }
+    }
+
+    cleanWords.push({
+      clean: '',
+      original: text.slice(token.start, unitEnd),
+      leadingPunctuation: '',
+      trailingPunctuation: '',
+      protectedKind: region.kind,
+      whitespaceBefore
+    })
+    previousEnd = unitEnd
+  }
+
+  // Punctuation-only tokens (bullets, dashes, headings) stay so reassembly can keep them
   return cleanWords
 }
 
 /**
- * Reassemble text with compression applied, preserving punctuation
+ * Split long text into chunks of at most `maxChars`, ending at paragraph or sentence
+ * boundaries where possible. Chunks concatenate back to the exact input and never
+ * cut through a protected region (a region longer than `maxChars` gets its own chunk).
+ */
+export function splitIntoChunks(text: string, maxChars: number): string[] {
+  const regions = findProtectedRegions(text)
+  const chunks: string[] = []
+  let start = 0
+
+  while (text.length - start > maxChars) {
+    const cut = findChunkCut(text, start, start + maxChars, regions)
+    chunks.push(text.slice(start, cut))
+    start = cut
+  }
+
+  if (start < text.length) {
+    chunks.push(text.slice(start))
+  }
+  return chunks
+}
+
+/**
+ * Pick where a chunk starting at `start` should end, at or before `limit`
+ */
+function findChunkCut(text: string, start: number, limit: number, regions: ProtectedRegion[]): number {
+  const window = text.slice(start, limit)
+  const preferredMin = start + Math.floor((limit - start) / 2)
+  const insideRegion = (index: number) => regions.some(region => region.start < index && index < region.end)
+
+  for (let b = 0; b < CHUNK_BOUNDARIES.length; b++) {
+    const boundary = CHUNK_BOUNDARIES[b]
+    // Paragraph and sentence cuts only count in the back half so chunks don't end up tiny
+    const minCut = b < CHUNK_BOUNDARIES.length - 1 ? preferredMin : start + 1
+
+    const cuts: number[] = []
+    boundary.regex.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = boundary.regex.exec(window)) !== null) {
+      cuts.push(start + boundary.cutAt(match))
+    }
+
+    for (let i = cuts.length - 1; i >= 0 && cuts[i] >= minCut; i--) {
+      if (!insideRegion(cuts[i])) return cuts[i]
+    }
+  }
+
+  // No usable whitespace - keep a protected region whole, otherwise cut mid-token
+  const covering = regions.find(region => region.start < limit && limit < region.end)
+  if (covering) {
+    return covering.start > start ? covering.start : covering.end
+  }
+  return limit
+}
+
+/**
+ * Reassemble text with compression applied, preserving punctuation and whitespace
  */
 export function reassembleText(
   originalWords: CleanWord[],
@@ -140,15 +423,18 @@ export function reassembleText(
 
   const result = originalWords.map((original, index) => {
     const processed = processedWords[index]
+    const separator = index === 0 ? '' : (original.whitespaceBefore ?? ' ')
 
-    // If word was compressed, use the compressed form
-    const finalWord = processed || original.clean
+    // Protected spans and untouched words are emitted exactly as written
+    if (original.protectedKind || !processed) {
+      return `${separator}${original.original}`
+    }
 
-    // Reconstruct with punctuation
-    return `${original.leadingPunctuation}${finalWord}${original.trailingPunctuation}`
+    // Reconstruct the compressed form with punctuation
+    return `${separator}${original.leadingPunctuation}${processed}${original.trailingPunctuation}`
   })
 
-  return result.join(' ')
+  return result.join('')
 }
 
 /**
@@ -159,6 +445,15 @@ export function getCleanWordForMatching(word: string): string {
   return cleaned.clean
 }
 
+/**
+ * Check whether a word ends its sentence - terminal punctuation, a line break after it, or the end of the text
+ */
+export function endsSentence(words: CleanWord[], index: number): boolean {
+  if (index >= words.length - 1) return true
+  if (/[.!?]["')\]»”’]*$/.test(words[index].original) && !words[index].protectedKind) return true
+  return (words[index + 1].whitespaceBefore || '').indexOf('\n') !== -1
+}
+
 /**
  * Extract phrases from clean words (for phrase compression)
  */
@@ -171,6 +466,8 @@ export function extractCleanPhrases(cleanWords: CleanWord[], windowSize: number)
 
   for (let i = 0; i <= cleanWords.length - windowSize; i++) {
     const phraseWords = cleanWords.slice(i, i + windowSize)
+    // Phrases never span punctuation-only tokens or protected regions
+    if (phraseWords.some(w => w.clean.length === 0)) continue
     const phrase = phraseWords.map(w => w.clean).join(' ')
 
     if (phrase.trim().length > 0) {
@@ -1,12 +1,22 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/supabase'
+import { validateAdminKey } from '@/lib/rate-limit'
+import { patternSnapshotCache } from '@/lib/compression/pattern-snapshot'
+import { SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE, isSupportedLanguage } from '@/lib/language'
+import { parseRuleConditions, RuleConditions } from '@/lib/compression/rule-conditions'
+import { CASE_POLICIES, CasePolicy, isCasePolicy } from '@/lib/compression/case-policy'
+import { compileTemplateRule, isTemplateRuleType, normalizeTemplate, TEMPLATE_PASS_PRIORITY } from '@/lib/compression/template-rules'
 import CryptoJS from 'crypto-js'
 
 export interface AddRuleApiRequest {
   originalText: string
   compressedForm: string
   confidenceScore?: number
-  compressionType?: 'word' | 'phrase'
+  compressionType?: 'word' | 'phrase' | 'prefix' | 'template' | 'regex'  // 'prefix' adds a Pass 0 question prefix
+  language?: string                                // Language the rule applies to (default 'en')
+  conditions?: RuleConditions                      // Where a word or phrase rule may fire (stored in `context`)
+  inflect?: boolean                                // Word rule also matches "explains", "explained", "explaining"
+  casePolicy?: CasePolicy                          // How the compressed form is cased (default 'auto')
   notes?: string
 }
 
@@ -19,11 +29,21 @@ export interface AddRuleApiResponse {
     confidenceScore: number
     compressionRatio: number
     passLevel: number
+    language: string
   }
   error?: string
   timestamp: string
 }
 
+/**
+ * Deduplication hash of a rule - English rules keep the plain MD5 of their text, so a rule in
+ * another language can share its text with an English one
+ */
+function ruleTextHash(text: string, language: string): string {
+  const key = text.toLowerCase()
+  return CryptoJS.MD5(language === DEFAULT_LANGUAGE ? key : `${language}:${key}`).toString()
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<AddRuleApiResponse>
@@ -31,7 +51,7 @@ export default async function handler(
   // Set CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*')
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-admin-key')
 
   // Handle preflight request
   if (req.method === 'OPTIONS') {
@@ -49,6 +69,16 @@ export default async function handler(
     return
   }
 
+  // Rules reach every compression - only admins add them
+  if (!validateAdminKey(req.headers['x-admin-key'] as string | undefined)) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid admin key. Send ADMIN_SECRET_KEY in the x-admin-key header.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
   try {
     // Validate request body
     const {
@@ -56,6 +86,10 @@ export default async function handler(
       compressedForm,
       confidenceScore = 0.70,
       compressionType,
+      language = DEFAULT_LANGUAGE,
+      conditions,
+      inflect = false,
+      casePolicy = 'auto',
       notes
     }: AddRuleApiRequest = req.body
 
@@ -69,7 +103,29 @@ export default async function handler(
       return
     }
 
-    if (!compressedForm || typeof compressedForm !== 'string' || compressedForm.trim().length === 0) {
+    if (compressionType !== undefined && !['word', 'phrase', 'prefix', 'template', 'regex'].includes(compressionType)) {
+      res.status(400).json({
+        success: false,
+        error: 'compressionType must be word, phrase, prefix, template or regex',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (!isSupportedLanguage(language)) {
+      res.status(400).json({
+        success: false,
+        error: `language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    const isPrefix = compressionType === 'prefix'
+    const isTemplate = isTemplateRuleType(compressionType)
+
+    // Prefixes are removed outright - "?" marks the question they introduced
+    if (!isPrefix && (!compressedForm || typeof compressedForm !== 'string' || compressedForm.trim().length === 0)) {
       res.status(400).json({
         success: false,
         error: 'Missing or invalid compressedForm',
@@ -87,16 +143,87 @@ export default async function handler(
       return
     }
 
-    // Sanitize inputs
-    const cleanOriginal = originalText.trim()
-    const cleanCompressed = compressedForm.trim()
+    if (isPrefix && originalText.trim().split(/\s+/).length > 6) {
+      res.status(400).json({
+        success: false,
+        error: 'Prefixes can be at most 6 words',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (typeof inflect !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'inflect must be true or false',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (!isCasePolicy(casePolicy)) {
+      res.status(400).json({
+        success: false,
+        error: `casePolicy must be one of: ${CASE_POLICIES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    let cleanConditions: RuleConditions | null = null
+    if (conditions !== undefined) {
+      if (isPrefix) {
+        res.status(400).json({
+          success: false,
+          error: 'conditions apply to word, phrase, template and regex rules only',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+      try {
+        cleanConditions = parseRuleConditions(conditions)
+      } catch (conditionError) {
+        res.status(400).json({
+          success: false,
+          error: (conditionError as Error).message,
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+    }
+
+    // Sanitize inputs - prefixes are matched case-insensitively and stored lowercased
+    const cleanOriginal = isPrefix
+      ? originalText.trim().toLowerCase().replace(/\s+/g, ' ')
+      : compressionType === 'template' ? normalizeTemplate(originalText) : originalText.trim()
+    const cleanCompressed = isPrefix ? '?' : compressedForm.trim()
+
+    // Templates and regexes are compiled now so a broken one never reaches the engine
+    if (isTemplate) {
+      try {
+        compileTemplateRule({
+          original_text: cleanOriginal,
+          compressed_form: cleanCompressed,
+          compression_type: compressionType,
+          text_hash: '',
+          usage_count: 0
+        })
+      } catch (templateError) {
+        res.status(400).json({
+          success: false,
+          error: (templateError as Error).message,
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+    }
 
     // Check if rule already exists
-    const existingRule = await db.getPatternByText(cleanOriginal)
+    const existingRule = await db.getPatternByText(cleanOriginal, language)
     if (existingRule) {
       res.status(409).json({
         success: false,
-        error: `Rule for "${cleanOriginal}" already exists`,
+        error: `Rule for "${cleanOriginal}" (${language}) already exists`,
         timestamp: new Date().toISOString()
       })
       return
@@ -105,8 +232,19 @@ export default async function handler(
     // Determine compression characteristics
     const wordCount = cleanOriginal.split(/\s+/).length
     const actualCompressionType = compressionType || (wordCount > 1 ? 'phrase' : 'word')
-    const passLevel = actualCompressionType === 'phrase' ? 1 : 2
-    const compressionRatio = Math.round(
+    const passLevel = isPrefix ? 0 : isTemplate ? TEMPLATE_PASS_PRIORITY : actualCompressionType === 'phrase' ? 1 : 2
+
+    if (inflect && (actualCompressionType !== 'word' || wordCount > 1 || language !== 'en')) {
+      res.status(400).json({
+        success: false,
+        error: 'inflect applies to single-word English rules only',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    // A template's savings depend on what its slots capture
+    const compressionRatio = isTemplate ? 0 : Math.round(
       ((cleanOriginal.length - cleanCompressed.length) / cleanOriginal.length) * 100
     )
 
@@ -116,6 +254,10 @@ export default async function handler(
       type: actualCompressionType,
       wordCount,
       passLevel,
+      language,
+      conditions: cleanConditions,
+      inflect,
+      casePolicy,
       confidence: confidenceScore,
       ratio: compressionRatio
     })
@@ -124,7 +266,7 @@ export default async function handler(
     const { data: newRule, error } = await db.supabase
       .from('compressions')
       .insert({
-        text_hash: CryptoJS.MD5(cleanOriginal.toLowerCase()).toString(),
+        text_hash: ruleTextHash(cleanOriginal, language),
         original_text: cleanOriginal,
         compressed_form: cleanCompressed,
         compression_rule: `${cleanOriginal} → ${cleanCompressed}`,
@@ -132,7 +274,11 @@ export default async function handler(
         pass_priority: passLevel,
         compression_type: actualCompressionType,
         confidence_score: confidenceScore,
-        compression_ratio: compressionRatio
+        compression_ratio: compressionRatio,
+        language,
+        context: cleanConditions ? JSON.stringify(cleanConditions) : null,
+        inflect,
+        case_policy: casePolicy
       })
       .select()
       .single()
@@ -142,6 +288,9 @@ export default async function handler(
       throw new Error('Database insertion failed')
     }
 
+    // New rule takes effect on the next compression
+    patternSnapshotCache.invalidate(`rule added: ${cleanOriginal}`)
+
     // Mark related miss as reviewed if it exists
     try {
       await db.supabase
@@ -151,6 +300,7 @@ export default async function handler(
           review_notes: notes || `Created rule: ${cleanOriginal} → ${cleanCompressed}`
         })
         .eq('word_phrase', cleanOriginal)
+        .eq('language', language)
     } catch (missError) {
       // Non-critical error - rule creation succeeded
       console.warn('Failed to update miss log:', missError)
@@ -172,7 +322,8 @@ export default async function handler(
         compressedForm: newRule.compressed_form,
         confidenceScore: newRule.confidence_score,
         compressionRatio: newRule.compression_ratio || 0,
-        passLevel: newRule.pass_priority
+        passLevel: newRule.pass_priority,
+        language: newRule.language ?? language
       },
       timestamp: new Date().toISOString()
     })
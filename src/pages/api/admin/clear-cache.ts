@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { compressionEngine } from '@/lib/compression/two-pass-engine'
+import { LRUCacheStats } from '@/lib/compression/result-cache'
+import { patternSnapshotCache, PatternSnapshotStats } from '@/lib/compression/pattern-snapshot'
 
 export interface ClearCacheResponse {
   success: boolean
@@ -8,6 +10,8 @@ export interface ClearCacheResponse {
     sizeBefore: number
     sizeAfter: number
   }
+  resultCache?: LRUCacheStats & { patternVersion: number }
+  patternSnapshot?: PatternSnapshotStats
   timestamp: string
 }
 
@@ -17,7 +21,7 @@ export default async function handler(
 ) {
   // Set CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*')
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
 
   // Handle preflight request
@@ -26,11 +30,24 @@ export default async function handler(
     return
   }
 
-  // Only allow POST requests
+  // GET reports cache metrics without clearing
+  if (req.method === 'GET') {
+    const stats = compressionEngine.getCacheStats()
+    res.status(200).json({
+      success: true,
+      message: `Result cache holds ${stats.size}/${stats.maxEntries} entries (${stats.hitRate}% hit rate).`,
+      resultCache: stats,
+      patternSnapshot: patternSnapshotCache.getStats(),
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // Only allow GET and POST requests
   if (req.method !== 'POST') {
     res.status(405).json({
       success: false,
-      message: 'Method not allowed. Use POST.',
+      message: 'Method not allowed. Use GET or POST.',
       timestamp: new Date().toISOString()
     })
     return
@@ -44,6 +61,9 @@ export default async function handler(
     // Clear the cache
     compressionEngine.clearCache()
 
+    // Reload rules too, in case they were edited directly in Supabase
+    patternSnapshotCache.invalidate('admin cache clear')
+
     // Get cache stats after clearing
     const statsAfter = compressionEngine.getCacheStats()
     const sizeAfter = statsAfter.size
@@ -57,6 +77,8 @@ export default async function handler(
         sizeBefore,
         sizeAfter
       },
+      resultCache: statsAfter,
+      patternSnapshot: patternSnapshotCache.getStats(),
       timestamp: new Date().toISOString()
     })
 
@@ -0,0 +1,86 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { confidenceSystem, ConfidenceAdjustment } from '@/lib/confidence-system'
+import { validateAdminKey } from '@/lib/rate-limit'
+
+export interface DisableRuleApiRequest {
+  ruleId: string   // Row id, or the rule id reported in rulesApplied (text_hash)
+  reason?: string
+}
+
+export interface DisableRuleApiResponse {
+  success: boolean
+  data?: ConfidenceAdjustment
+  error?: string
+  timestamp: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DisableRuleApiResponse>
+) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-admin-key')
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    res.status(200).end()
+    return
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // A disabled rule stops loading for every compression - only admins turn rules off
+  if (!validateAdminKey(req.headers['x-admin-key'] as string | undefined)) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid admin key. Send ADMIN_SECRET_KEY in the x-admin-key header.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const { ruleId, reason }: DisableRuleApiRequest = req.body || {}
+
+  if (!ruleId || typeof ruleId !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Missing or invalid ruleId',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  try {
+    // Confidence 0.00 is below every mode's threshold, so the rule stops loading
+    const adjustment = await confidenceSystem.manuallyAdjustConfidence(ruleId, 0, reason || 'disabled by admin')
+
+    console.log(`[Admin] Disabled compression rule ${ruleId} (was ${adjustment.oldConfidence})`)
+
+    res.status(200).json({
+      success: true,
+      data: adjustment,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Disable rule API error:', error)
+
+    // PostgREST reports a missing row from .single() as PGRST116
+    const notFound = !!error && typeof error === 'object' && (error as { code?: string }).code === 'PGRST116'
+    res.status(notFound ? 404 : 503).json({
+      success: false,
+      error: notFound ? 'Rule not found' : 'Database temporarily unavailable',
+      timestamp: new Date().toISOString()
+    })
+  }
+}
@@ -0,0 +1,327 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import {
+  compressionEngine,
+  BatchCompressionItem,
+  BatchCompressionResult,
+  BatchItemResult,
+  CompressionOptions
+} from '@/lib/compression/two-pass-engine'
+import { CONFIDENCE_MODES } from '@/lib/confidence-system'
+import { validateApiKey, checkRateLimit, getClientIP, maxRequestCost } from '@/lib/rate-limit'
+import { ruleSetCache, ruleSetOwner, ownsRuleSet, RULE_SET_ID_PATTERN } from '@/lib/compression/rule-sets'
+import { SUPPORTED_LANGUAGES, isSupportedLanguage } from '@/lib/language'
+import { SEGMENTATION_MODES, isSegmentationMode } from '@/lib/compression/segmentation'
+import { passRegistry } from '@/lib/compression/pass-pipeline'
+
+// Batch limits
+const MAX_BATCH_ITEMS = 500
+const MAX_ITEM_LENGTH = 10000
+// Every 10,000 characters in a batch costs one request against the rate limit
+const CHARS_PER_RATE_UNIT = 10000
+
+export interface BatchCompressionApiRequest {
+  items: BatchCompressionItem[]
+  sessionId?: string
+  options?: CompressionOptions
+}
+
+export interface BatchCompressionApiResponse {
+  success: boolean
+  data?: BatchCompressionResult & {
+    meta: {
+      rateLimitCost: number
+    }
+  }
+  error?: string
+  timestamp: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BatchCompressionApiResponse>
+) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-api-key')
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    res.status(200).end()
+    return
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // Get API key and client IP for security checks
+  const apiKey = req.headers['x-api-key'] as string | undefined
+  const clientIP = getClientIP(req)
+
+  // 1. API Key Validation
+  let isPremium = false
+  if (apiKey) {
+    if (!validateApiKey(apiKey)) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid API key. Please check your authentication credentials.',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+    isPremium = true
+  }
+
+  // 2. Validate request body before charging the rate limit
+  const { items, sessionId, options = {} }: BatchCompressionApiRequest = req.body || {}
+
+  if (!Array.isArray(items) || items.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Missing or empty items array',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (items.length > MAX_BATCH_ITEMS) {
+    res.status(400).json({
+      success: false,
+      error: `Too many items. Maximum ${MAX_BATCH_ITEMS} per batch.`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const seenIds = new Set<string>()
+  for (const item of items) {
+    if (!item || typeof item.id !== 'string' || item.id.length === 0 || typeof item.text !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Each item needs a string id and text',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+    if (seenIds.has(item.id)) {
+      res.status(400).json({
+        success: false,
+        error: `Duplicate item id: ${item.id}`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+    seenIds.add(item.id)
+  }
+
+  if (options.confidenceMode !== undefined && !CONFIDENCE_MODES.includes(options.confidenceMode)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid confidenceMode. Use one of: ${CONFIDENCE_MODES.join(', ')}`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (options.language !== undefined && options.language !== 'auto' && !isSupportedLanguage(options.language)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid language. Use auto or one of: ${SUPPORTED_LANGUAGES.join(', ')}`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (options.segmentation !== undefined && !isSegmentationMode(options.segmentation)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid segmentation. Use one of: ${SEGMENTATION_MODES.join(', ')}`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  for (const target of ['targetLength', 'targetTokens'] as const) {
+    const value = options[target]
+    if (value !== undefined && !(typeof value === 'number' && Number.isInteger(value) && value > 0)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid ${target}. Use a positive whole number.`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+  }
+
+  const pipelineError = passRegistry.selectionError(options)
+  if (pipelineError) {
+    res.status(400).json({
+      success: false,
+      error: pipelineError,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (options.ruleSet !== undefined && (typeof options.ruleSet !== 'string' || !RULE_SET_ID_PATTERN.test(options.ruleSet))) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid ruleSet. Use the id returned by /api/rule-sets.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // 3. Rate Limiting - one request unit per 10,000 characters
+  const totalChars = items.reduce((sum, item) => sum + item.text.length, 0)
+  const rateLimitCost = Math.max(1, Math.ceil(totalChars / CHARS_PER_RATE_UNIT))
+
+  // Waiting for the window to reset never lets a request heavier than the whole limit through
+  const maxChars = maxRequestCost(isPremium) * CHARS_PER_RATE_UNIT
+  if (totalChars > maxChars) {
+    res.status(413).json({
+      success: false,
+      error: `This batch is too large for your tier. Maximum ${maxChars.toLocaleString('en-US')} characters per request${isPremium ? '' : ' without an API key'}.`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const rateLimitResult = checkRateLimit(clientIP, isPremium, rateLimitCost)
+
+  // Add rate limit headers
+  res.setHeader('X-RateLimit-Limit', rateLimitResult.limit)
+  res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining)
+  res.setHeader('X-RateLimit-Reset', Math.ceil(rateLimitResult.resetTime / 1000))
+  res.setHeader('X-RateLimit-Cost', rateLimitCost)
+
+  if (!rateLimitResult.allowed) {
+    res.status(429).json({
+      success: false,
+      error: `Rate limit exceeded. This batch costs ${rateLimitCost} of ${rateLimitResult.limit} requests per minute (${rateLimitResult.remaining} remaining). Try again in ${Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)} seconds.`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  try {
+    // Rule sets are private to the API key or session that owns them
+    if (options.ruleSet !== undefined) {
+      const layer = await ruleSetCache.get(options.ruleSet)
+      if (!layer || !ownsRuleSet(layer.ruleSet, ruleSetOwner(apiKey, sessionId))) {
+        res.status(404).json({
+          success: false,
+          error: 'Rule set not found',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+    }
+
+    const finalSessionId = sessionId || generateSessionId()
+
+    // Items that can't be compressed get an error entry instead of failing the batch
+    const rejected = new Map<string, string>()
+    items.forEach(item => {
+      if (item.text.trim().length === 0) {
+        rejected.set(item.id, 'Text cannot be empty')
+      } else if (item.text.length > MAX_ITEM_LENGTH) {
+        rejected.set(item.id, 'Text too long. Maximum 10,000 characters.')
+      }
+    })
+
+    console.log(`[${finalSessionId}] Compressing batch of ${items.length} items (${totalChars} chars, cost ${rateLimitCost})`)
+
+    const batch = await compressionEngine.compressBatch(
+      items.filter(item => !rejected.has(item.id)),
+      finalSessionId,
+      {
+        confidenceMode: options.confidenceMode,
+        enableCaching: options.enableCaching,
+        tokenAware: options.tokenAware === true,
+        ruleSet: options.ruleSet,
+        language: options.language,
+        segmentation: options.segmentation,
+        targetLength: options.targetLength,
+        targetTokens: options.targetTokens,
+        passes: options.passes,
+        passProfile: options.passProfile,
+        disablePasses: options.disablePasses,
+        enablePasses: options.enablePasses
+      }
+    )
+
+    // Restore request order with rejected items in place
+    const resultsById = new Map<string, BatchItemResult>()
+    batch.results.forEach(result => resultsById.set(result.id, result))
+    const results = items.map(item =>
+      resultsById.get(item.id) || { id: item.id, success: false, error: rejected.get(item.id) }
+    )
+
+    console.log(`[${finalSessionId}] Batch complete:`, {
+      items: batch.stats.totalItems,
+      rejected: rejected.size,
+      ratio: batch.stats.compressionRatio,
+      processingTime: batch.stats.processingTime
+    })
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...batch,
+        results,
+        stats: {
+          ...batch.stats,
+          totalItems: items.length,
+          failed: batch.stats.failed + rejected.size
+        },
+        meta: {
+          rateLimitCost
+        }
+      },
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Batch compression API error:', error)
+
+    // Determine error type and status code
+    let statusCode = 500
+    let errorMessage = 'Internal server error'
+
+    if (error instanceof Error) {
+      if (error.message.includes('Database connection failed')) {
+        statusCode = 503
+        errorMessage = 'Database temporarily unavailable'
+      } else if (error.message.includes('Rule set not found')) {
+        statusCode = 404
+        errorMessage = 'Rule set not found'
+      } else if (error.message.includes('Invalid pass pipeline')) {
+        statusCode = 400
+        errorMessage = error.message
+      } else {
+        errorMessage = 'Batch compression failed'
+      }
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      error: errorMessage,
+      timestamp: new Date().toISOString()
+    })
+  }
+}
+
+/**
+ * Generate unique session ID
+ */
+function generateSessionId(): string {
+  return 'sess_' + Date.now() + '_' + Math.random().toString(36).substring(2, 15)
+}
@@ -0,0 +1,309 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import {
+  compressionEngine,
+  CompressionOptions,
+  StreamChunkResult,
+  DEFAULT_STREAM_CHUNK_CHARS
+} from '@/lib/compression/two-pass-engine'
+import { CONFIDENCE_MODES } from '@/lib/confidence-system'
+import { validateApiKey, checkRateLimit, getClientIP, maxRequestCost } from '@/lib/rate-limit'
+import { ruleSetCache, ruleSetOwner, ownsRuleSet, RULE_SET_ID_PATTERN } from '@/lib/compression/rule-sets'
+import { SUPPORTED_LANGUAGES, isSupportedLanguage } from '@/lib/language'
+import { SEGMENTATION_MODES, isSegmentationMode } from '@/lib/compression/segmentation'
+import { passRegistry } from '@/lib/compression/pass-pipeline'
+
+// Stream limits
+const MAX_STREAM_LENGTH = 1000000
+const MIN_CHUNK_CHARS = 500
+const MAX_CHUNK_CHARS = 10000
+// Every 10,000 characters costs one request against the rate limit
+const CHARS_PER_RATE_UNIT = 10000
+
+// Whole design docs and transcripts don't fit the default 1mb body limit
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '4mb' }
+  }
+}
+
+export interface StreamCompressionApiRequest {
+  text: string
+  sessionId?: string
+  chunkSize?: number
+  options?: CompressionOptions
+}
+
+interface ErrorResponse {
+  success: false
+  error: string
+  timestamp: string
+}
+
+/**
+ * Server-Sent Events stream:
+ *   event: chunk  data: StreamChunkResult
+ *   event: done   data: StreamCompressionSummary
+ *   event: error  data: { error }
+ * Concatenating every chunk's `compressed` gives the compressed document.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ErrorResponse>
+) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-api-key')
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    res.status(200).end()
+    return
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // Get API key and client IP for security checks
+  const apiKey = req.headers['x-api-key'] as string | undefined
+  const clientIP = getClientIP(req)
+
+  // 1. API Key Validation
+  let isPremium = false
+  if (apiKey) {
+    if (!validateApiKey(apiKey)) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid API key. Please check your authentication credentials.',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+    isPremium = true
+  }
+
+  // 2. Validate request body before charging the rate limit
+  const { text, sessionId, chunkSize = DEFAULT_STREAM_CHUNK_CHARS, options = {} }: StreamCompressionApiRequest = req.body || {}
+
+  if (!text || typeof text !== 'string' || text.trim().length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Missing or empty text parameter',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (text.length > MAX_STREAM_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: 'Text too long. Maximum 1,000,000 characters.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (typeof chunkSize !== 'number' || chunkSize < MIN_CHUNK_CHARS || chunkSize > MAX_CHUNK_CHARS) {
+    res.status(400).json({
+      success: false,
+      error: `chunkSize must be between ${MIN_CHUNK_CHARS} and ${MAX_CHUNK_CHARS}`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (options.confidenceMode !== undefined && !CONFIDENCE_MODES.includes(options.confidenceMode)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid confidenceMode. Use one of: ${CONFIDENCE_MODES.join(', ')}`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (options.language !== undefined && options.language !== 'auto' && !isSupportedLanguage(options.language)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid language. Use auto or one of: ${SUPPORTED_LANGUAGES.join(', ')}`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (options.segmentation !== undefined && !isSegmentationMode(options.segmentation)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid segmentation. Use one of: ${SEGMENTATION_MODES.join(', ')}`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // A budget needs the whole output at once
+  if (options.targetLength !== undefined || options.targetTokens !== undefined) {
+    res.status(400).json({
+      success: false,
+      error: 'targetLength and targetTokens are not supported for streaming. Use /api/unified-compress.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const pipelineError = passRegistry.selectionError(options)
+  if (pipelineError) {
+    res.status(400).json({
+      success: false,
+      error: pipelineError,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  if (options.ruleSet !== undefined && (typeof options.ruleSet !== 'string' || !RULE_SET_ID_PATTERN.test(options.ruleSet))) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid ruleSet. Use the id returned by /api/rule-sets.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // 3. Rate Limiting - one request unit per 10,000 characters
+  const rateLimitCost = Math.max(1, Math.ceil(text.length / CHARS_PER_RATE_UNIT))
+
+  // Waiting for the window to reset never lets a request heavier than the whole limit through
+  const maxChars = maxRequestCost(isPremium) * CHARS_PER_RATE_UNIT
+  if (text.length > maxChars) {
+    res.status(413).json({
+      success: false,
+      error: `This document is too large for your tier. Maximum ${maxChars.toLocaleString('en-US')} characters per request${isPremium ? '' : ' without an API key'}.`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const rateLimitResult = checkRateLimit(clientIP, isPremium, rateLimitCost)
+
+  res.setHeader('X-RateLimit-Limit', rateLimitResult.limit)
+  res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining)
+  res.setHeader('X-RateLimit-Reset', Math.ceil(rateLimitResult.resetTime / 1000))
+  res.setHeader('X-RateLimit-Cost', rateLimitCost)
+
+  if (!rateLimitResult.allowed) {
+    res.status(429).json({
+      success: false,
+      error: `Rate limit exceeded. This document costs ${rateLimitCost} of ${rateLimitResult.limit} requests per minute (${rateLimitResult.remaining} remaining). Try again in ${Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)} seconds.`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  try {
+    // Rule sets are private to the API key or session that owns them
+    if (options.ruleSet !== undefined) {
+      const layer = await ruleSetCache.get(options.ruleSet)
+      if (!layer || !ownsRuleSet(layer.ruleSet, ruleSetOwner(apiKey, sessionId))) {
+        res.status(404).json({
+          success: false,
+          error: 'Rule set not found',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+    }
+  } catch (error) {
+    console.error('Stream compression API error:', error)
+    res.status(503).json({
+      success: false,
+      error: 'Database temporarily unavailable',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // 4. Open the event stream - errors from here on are sent as events
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+
+  let clientGone = false
+  req.on('close', () => {
+    clientGone = true
+  })
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  const finalSessionId = sessionId || generateSessionId()
+
+  try {
+    const summary = await compressionEngine.compressStream(
+      text,
+      finalSessionId,
+      {
+        confidenceMode: options.confidenceMode,
+        tokenAware: options.tokenAware === true,
+        ruleSet: options.ruleSet,
+        language: options.language,
+        segmentation: options.segmentation,
+        passes: options.passes,
+        passProfile: options.passProfile,
+        disablePasses: options.disablePasses,
+        enablePasses: options.enablePasses
+      },
+      (chunk: StreamChunkResult) => {
+        // Stop compressing once nobody is listening
+        if (clientGone) {
+          throw new Error('Client disconnected')
+        }
+        sendEvent('chunk', chunk)
+      },
+      chunkSize
+    )
+
+    console.log(`[${finalSessionId}] Stream complete:`, {
+      chunks: summary.chunks,
+      originalLength: summary.originalLength,
+      ratio: summary.compressionRatio,
+      processingTime: summary.processingTime
+    })
+
+    sendEvent('done', { ...summary, sessionId: finalSessionId, rateLimitCost })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Client disconnected')) {
+      console.log(`[${finalSessionId}] Stream aborted by client`)
+    } else {
+      console.error('Stream compression API error:', error)
+
+      let errorMessage = 'Compression processing failed'
+      if (error instanceof Error && error.message.includes('Database connection failed')) {
+        errorMessage = 'Database temporarily unavailable'
+      } else if (error instanceof Error && error.message.includes('Rule set not found')) {
+        errorMessage = 'Rule set not found'
+      } else if (error instanceof Error && error.message.includes('Invalid pass pipeline')) {
+        errorMessage = error.message
+      }
+      sendEvent('error', { error: errorMessage })
+    }
+  }
+
+  res.end()
+}
+
+/**
+ * Generate unique session ID
+ */
+function generateSessionId(): string {
+  return 'sess_' + Date.now() + '_' + Math.random().toString(36).substring(2, 15)
+}
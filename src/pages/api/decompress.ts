@@ -0,0 +1,132 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { compressionEngine, AppliedRule, DecompressionResult } from '@/lib/compression/two-pass-engine'
+
+export interface DecompressionApiRequest {
+  compressed: string
+  rulesApplied?: AppliedRule[]
+}
+
+export interface DecompressionApiResponse {
+  success: boolean
+  data?: DecompressionResult
+  error?: string
+  timestamp: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DecompressionApiResponse>
+) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-api-key')
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    res.status(200).end()
+    return
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  try {
+    // Validate request body
+    const { compressed, rulesApplied }: DecompressionApiRequest = req.body
+
+    if (!compressed || typeof compressed !== 'string' || compressed.trim().length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing or invalid compressed parameter',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (compressed.length > 10000) {
+      res.status(400).json({
+        success: false,
+        error: 'Text too long. Maximum 10,000 characters.',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (rulesApplied !== undefined) {
+      if (!Array.isArray(rulesApplied)) {
+        res.status(400).json({
+          success: false,
+          error: 'rulesApplied must be an array',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+
+      // Validate each rule in rulesApplied
+      for (const rule of rulesApplied) {
+        if (
+          !rule ||
+          typeof rule.originalText !== 'string' ||
+          typeof rule.compressedForm !== 'string' ||
+          typeof rule.pass !== 'number' ||
+          typeof rule.startIndex !== 'number' ||
+          typeof rule.endIndex !== 'number'
+        ) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid rule structure in rulesApplied',
+            timestamp: new Date().toISOString()
+          })
+          return
+        }
+      }
+    }
+
+    // Perform decompression
+    const result = await compressionEngine.decompress(compressed, rulesApplied)
+
+    console.log(`[Decompress] Expanded ${result.rulesReversed.length} rules:`, {
+      compressedLength: compressed.length,
+      decompressedLength: result.decompressed.length,
+      usedRuleIndices: result.usedRuleIndices,
+      unresolved: result.unresolvedTokens.length
+    })
+
+    // Return successful response
+    res.status(200).json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Decompression API error:', error)
+
+    // Determine error type and status code
+    let statusCode = 500
+    let errorMessage = 'Internal server error'
+
+    if (error instanceof Error) {
+      if (error.message.includes('Database connection failed')) {
+        statusCode = 503
+        errorMessage = 'Database temporarily unavailable'
+      } else {
+        errorMessage = 'Decompression processing failed'
+      }
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      error: errorMessage,
+      timestamp: new Date().toISOString()
+    })
+  }
+}
@@ -0,0 +1,242 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { db, RuleSet, RuleSetRule } from '@/lib/supabase'
+import { ruleSetCache, ruleSetOwner, ownsRuleSet, RULE_SET_ID_PATTERN } from '@/lib/compression/rule-sets'
+import { validateApiKey, checkRateLimit, getClientIP } from '@/lib/rate-limit'
+
+export interface UpdateRuleSetApiRequest {
+  sessionId?: string
+  overrides?: { originalText: string; compressedForm: string; confidenceScore?: number }[]
+  exclusions?: string[]   // Global rules (by original text) this set turns off
+  remove?: string[]       // Overrides or exclusions to delete
+}
+
+export interface RuleSetApiResponse {
+  success: boolean
+  data?: {
+    ruleSet: RuleSet
+    rules?: RuleSetRule[]
+    deleted?: boolean
+  }
+  error?: string
+  timestamp: string
+}
+
+// Entries per update request
+const MAX_ENTRIES = 500
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RuleSetApiResponse>
+) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-api-key')
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    res.status(200).end()
+    return
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET, PUT or DELETE.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const apiKey = req.headers['x-api-key'] as string | undefined
+  if (apiKey && !validateApiKey(apiKey)) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid API key. Please check your authentication credentials.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const rateLimitResult = checkRateLimit(getClientIP(req), !!apiKey)
+  res.setHeader('X-RateLimit-Limit', rateLimitResult.limit)
+  res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining)
+  res.setHeader('X-RateLimit-Reset', Math.ceil(rateLimitResult.resetTime / 1000))
+
+  if (!rateLimitResult.allowed) {
+    res.status(429).json({
+      success: false,
+      error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)} seconds.`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const id = req.query.id
+  if (typeof id !== 'string' || !RULE_SET_ID_PATTERN.test(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid rule set id',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const sessionId = req.method === 'PUT' ? (req.body || {}).sessionId : req.query.sessionId
+  const owner = ruleSetOwner(apiKey, typeof sessionId === 'string' ? sessionId : undefined)
+
+  try {
+    // Sets owned by someone else look exactly like missing ones
+    const ruleSet = await db.getRuleSet(id)
+    if (!ruleSet || !ownsRuleSet(ruleSet, owner)) {
+      res.status(404).json({
+        success: false,
+        error: 'Rule set not found',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (req.method === 'GET') {
+      const rules = await db.getRuleSetRules(id)
+      res.status(200).json({
+        success: true,
+        data: { ruleSet, rules },
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (req.method === 'DELETE') {
+      await db.deleteRuleSet(id)
+      ruleSetCache.invalidate(id, 'rule set deleted')
+
+      res.status(200).json({
+        success: true,
+        data: { ruleSet, deleted: true },
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    // Validate request body
+    const { overrides = [], exclusions = [], remove = [] }: UpdateRuleSetApiRequest = req.body || {}
+
+    if (!Array.isArray(overrides) || !Array.isArray(exclusions) || !Array.isArray(remove)) {
+      res.status(400).json({
+        success: false,
+        error: 'overrides, exclusions and remove must be arrays',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (overrides.length + exclusions.length + remove.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Nothing to update. Provide overrides, exclusions or remove.',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (overrides.length + exclusions.length + remove.length > MAX_ENTRIES) {
+      res.status(400).json({
+        success: false,
+        error: `Too many entries. Maximum ${MAX_ENTRIES} per update.`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    const validText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0
+
+    for (const override of overrides) {
+      if (!override || !validText(override.originalText) || !validText(override.compressedForm)) {
+        res.status(400).json({
+          success: false,
+          error: 'Each override needs originalText and compressedForm',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+      const score = override.confidenceScore
+      if (score !== undefined && (typeof score !== 'number' || score < 0 || score > 1)) {
+        res.status(400).json({
+          success: false,
+          error: 'confidenceScore must be a number between 0.00 and 1.00',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+    }
+
+    if (!exclusions.every(validText) || !remove.every(validText)) {
+      res.status(400).json({
+        success: false,
+        error: 'exclusions and remove must be non-empty strings',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    // Rule texts are matched case-insensitively - store them lowercased
+    const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ')
+    const entries: Omit<RuleSetRule, 'id' | 'created_at'>[] = [
+      ...overrides.map(override => ({
+        rule_set_id: id,
+        original_text: normalize(override.originalText),
+        compressed_form: override.compressedForm.trim(),
+        action: 'override' as const,
+        confidence_score: override.confidenceScore ?? 0.90
+      })),
+      ...exclusions.map(text => ({
+        rule_set_id: id,
+        original_text: normalize(text),
+        compressed_form: null,
+        action: 'exclude' as const,
+        confidence_score: 0
+      }))
+    ]
+
+    // One row per text - the upsert can't write the same (rule_set_id, original_text) twice
+    const texts = entries.map(entry => entry.original_text)
+    const duplicate = texts.find((text, index) => texts.indexOf(text) !== index)
+    if (duplicate !== undefined) {
+      res.status(400).json({
+        success: false,
+        error: `"${duplicate}" appears more than once. Send each text as one override or exclusion.`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (remove.length > 0) {
+      await db.deleteRuleSetRules(id, remove.map(normalize))
+    }
+    if (entries.length > 0) {
+      await db.upsertRuleSetRules(entries)
+    }
+
+    // Edits take effect on the next compression
+    ruleSetCache.invalidate(id, `${entries.length} entries upserted, ${remove.length} removed`)
+
+    const rules = await db.getRuleSetRules(id)
+    console.log(`📚 Updated rule set "${ruleSet.name}": ${rules.length} entries`)
+
+    res.status(200).json({
+      success: true,
+      data: { ruleSet, rules },
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Rule set API error:', error)
+
+    res.status(503).json({
+      success: false,
+      error: 'Database temporarily unavailable',
+      timestamp: new Date().toISOString()
+    })
+  }
+}
@@ -0,0 +1,147 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { db, RuleSet } from '@/lib/supabase'
+import { ruleSetOwner } from '@/lib/compression/rule-sets'
+import { validateApiKey, checkRateLimit, getClientIP } from '@/lib/rate-limit'
+
+export interface CreateRuleSetApiRequest {
+  name: string
+  description?: string
+  sessionId?: string
+}
+
+export interface RuleSetsApiResponse {
+  success: boolean
+  data?: {
+    ruleSets?: RuleSet[]
+    ruleSet?: RuleSet
+  }
+  error?: string
+  timestamp: string
+}
+
+const MAX_NAME_LENGTH = 100
+const MAX_SESSION_LENGTH = 50
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RuleSetsApiResponse>
+) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-api-key')
+
+  // Handle preflight request
+  if (req.method === 'OPTIONS') {
+    res.status(200).end()
+    return
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET or POST.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  // Rule sets belong to an API key, or to a session when there is no key
+  const apiKey = req.headers['x-api-key'] as string | undefined
+  if (apiKey && !validateApiKey(apiKey)) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid API key. Please check your authentication credentials.',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const rateLimitResult = checkRateLimit(getClientIP(req), !!apiKey)
+  res.setHeader('X-RateLimit-Limit', rateLimitResult.limit)
+  res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining)
+  res.setHeader('X-RateLimit-Reset', Math.ceil(rateLimitResult.resetTime / 1000))
+
+  if (!rateLimitResult.allowed) {
+    res.status(429).json({
+      success: false,
+      error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)} seconds.`,
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  const sessionId = req.method === 'GET'
+    ? (typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined)
+    : (req.body || {}).sessionId
+  const owner = ruleSetOwner(apiKey, typeof sessionId === 'string' ? sessionId : undefined)
+
+  if (!owner.keyHash && (!owner.sessionId || owner.sessionId.length > MAX_SESSION_LENGTH)) {
+    res.status(400).json({
+      success: false,
+      error: 'Provide an x-api-key header or a sessionId to own rule sets',
+      timestamp: new Date().toISOString()
+    })
+    return
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const ruleSets = await db.listRuleSets(owner.keyHash
+        ? { column: 'owner_key_hash', value: owner.keyHash }
+        : { column: 'owner_session', value: owner.sessionId as string })
+
+      res.status(200).json({
+        success: true,
+        data: { ruleSets },
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    // Validate request body
+    const { name, description }: CreateRuleSetApiRequest = req.body || {}
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_NAME_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `Missing or invalid name. Maximum ${MAX_NAME_LENGTH} characters.`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (description !== undefined && typeof description !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid description',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    const ruleSet = await db.createRuleSet({
+      name: name.trim(),
+      description: description?.trim() || null,
+      owner_key_hash: owner.keyHash,
+      owner_session: owner.keyHash ? null : owner.sessionId
+    })
+
+    console.log(`📚 Created rule set "${ruleSet.name}" (${ruleSet.id})`)
+
+    res.status(201).json({
+      success: true,
+      data: { ruleSet },
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Rule sets API error:', error)
+
+    res.status(503).json({
+      success: false,
+      error: 'Database temporarily unavailable',
+      timestamp: new Date().toISOString()
+    })
+  }
+}
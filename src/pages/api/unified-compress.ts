@@ -1,21 +1,29 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { compressionEngine, CompressionResult } from '@/lib/compression/two-pass-engine'
-
-// Rate limiting storage (in-memory - use Redis in production)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
-
-// Rate limit configurations
-const RATE_LIMITS = {
-  FREE_TIER: { requests: 10, windowMs: 60 * 1000 }, // 10 requests per minute
-  PREMIUM: { requests: 100, windowMs: 60 * 1000 }   // 100 requests per minute
-}
+import { ConfidenceMode, CONFIDENCE_MODES } from '@/lib/confidence-system'
+import { RATE_LIMITS, validateApiKey, checkRateLimit, getClientIP } from '@/lib/rate-limit'
+import { ruleSetCache, ruleSetOwner, ownsRuleSet, RULE_SET_ID_PATTERN } from '@/lib/compression/rule-sets'
+import { Language, SUPPORTED_LANGUAGES, isSupportedLanguage } from '@/lib/language'
+import { SegmentationMode, SEGMENTATION_MODES, isSegmentationMode } from '@/lib/compression/segmentation'
+import { passRegistry } from '@/lib/compression/pass-pipeline'
 
 export interface CompressionApiRequest {
   text: string
   sessionId?: string
   options?: {
-    confidenceMode?: 'conservative' | 'default' | 'aggressive'
+    confidenceMode?: ConfidenceMode
     enableCaching?: boolean
+    tokenAware?: boolean
+    ruleSet?: string
+    language?: Language | 'auto'
+    segmentation?: SegmentationMode
+    explain?: boolean
+    targetLength?: number
+    targetTokens?: number
+    passes?: string[]
+    passProfile?: string
+    disablePasses?: string[]
+    enablePasses?: string[]
   }
 }
 
@@ -36,48 +44,6 @@ export interface CompressionApiResponse {
   timestamp: string
 }
 
-/**
- * Validate API key against environment variable
- */
-function validateApiKey(apiKey: string | undefined): boolean {
-  if (!apiKey) return false
-  return apiKey === process.env.API_SECRET_KEY
-}
-
-/**
- * Check and update rate limits for an IP address
- */
-function checkRateLimit(ip: string, isPremium: boolean): { allowed: boolean; resetTime: number; remaining: number } {
-  const now = Date.now()
-  const config = isPremium ? RATE_LIMITS.PREMIUM : RATE_LIMITS.FREE_TIER
-
-  // Clean up expired entries
-  rateLimitMap.forEach((value, key) => {
-    if (now > value.resetTime) {
-      rateLimitMap.delete(key)
-    }
-  })
-
-  const existing = rateLimitMap.get(ip)
-
-  if (!existing || now > existing.resetTime) {
-    // First request in window or window has expired
-    const resetTime = now + config.windowMs
-    rateLimitMap.set(ip, { count: 1, resetTime })
-    return { allowed: true, resetTime, remaining: config.requests - 1 }
-  }
-
-  if (existing.count >= config.requests) {
-    // Rate limit exceeded
-    return { allowed: false, resetTime: existing.resetTime, remaining: 0 }
-  }
-
-  // Increment count
-  existing.count++
-  rateLimitMap.set(ip, existing)
-  return { allowed: true, resetTime: existing.resetTime, remaining: config.requests - existing.count }
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<CompressionApiResponse>
@@ -144,7 +110,7 @@ export default async function handler(
 
   try {
     // Validate request body
-    const { text, sessionId }: CompressionApiRequest = req.body
+    const { text, sessionId, options = {} }: CompressionApiRequest = req.body
 
     if (!text || typeof text !== 'string') {
       res.status(400).json({
@@ -173,13 +139,107 @@ export default async function handler(
       return
     }
 
+    if (options.confidenceMode !== undefined && !CONFIDENCE_MODES.includes(options.confidenceMode)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid confidenceMode. Use one of: ${CONFIDENCE_MODES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (options.language !== undefined && options.language !== 'auto' && !isSupportedLanguage(options.language)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid language. Use auto or one of: ${SUPPORTED_LANGUAGES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (options.segmentation !== undefined && !isSegmentationMode(options.segmentation)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid segmentation. Use one of: ${SEGMENTATION_MODES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (options.explain !== undefined && typeof options.explain !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid explain. Use true or false.',
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    for (const target of ['targetLength', 'targetTokens'] as const) {
+      const value = options[target]
+      if (value !== undefined && !(typeof value === 'number' && Number.isInteger(value) && value > 0)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid ${target}. Use a positive whole number.`,
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+    }
+
+    const pipelineError = passRegistry.selectionError(options)
+    if (pipelineError) {
+      res.status(400).json({
+        success: false,
+        error: pipelineError,
+        timestamp: new Date().toISOString()
+      })
+      return
+    }
+
+    if (options.ruleSet !== undefined) {
+      if (typeof options.ruleSet !== 'string' || !RULE_SET_ID_PATTERN.test(options.ruleSet)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid ruleSet. Use the id returned by /api/rule-sets.',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+
+      // Rule sets are private to the API key or session that owns them
+      const layer = await ruleSetCache.get(options.ruleSet)
+      if (!layer || !ownsRuleSet(layer.ruleSet, ruleSetOwner(apiKey, sessionId))) {
+        res.status(404).json({
+          success: false,
+          error: 'Rule set not found',
+          timestamp: new Date().toISOString()
+        })
+        return
+      }
+    }
+
     // Generate session ID if not provided
     const finalSessionId = sessionId || generateSessionId()
 
     console.log(`[${finalSessionId}] Compressing text: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`)
 
     // Perform compression
-    const result = await compressionEngine.compress(text, finalSessionId)
+    const result = await compressionEngine.compress(text, finalSessionId, {
+      confidenceMode: options.confidenceMode,
+      enableCaching: options.enableCaching,
+      tokenAware: options.tokenAware === true,
+      ruleSet: options.ruleSet,
+      language: options.language,
+      segmentation: options.segmentation,
+      explain: options.explain === true,
+      targetLength: options.targetLength,
+      targetTokens: options.targetTokens,
+      passes: options.passes,
+      passProfile: options.passProfile,
+      disablePasses: options.disablePasses,
+      enablePasses: options.enablePasses
+    })
 
     // Calculate processing details
     const pass1Time = result.passResults.pass1.processingTime
@@ -194,6 +254,7 @@ export default async function handler(
       ratio: result.compressionRatio,
       processingTime: result.processingTime,
       cacheHit: result.fromCache,
+      confidenceMode: result.confidenceMode,
       rulesApplied: totalRules
     })
 
@@ -226,6 +287,12 @@ export default async function handler(
       if (error.message.includes('Database connection failed')) {
         statusCode = 503
         errorMessage = 'Database temporarily unavailable'
+      } else if (error.message.includes('Rule set not found')) {
+        statusCode = 404
+        errorMessage = 'Rule set not found'
+      } else if (error.message.includes('Invalid pass pipeline')) {
+        statusCode = 400
+        errorMessage = error.message
       } else if (error.message.includes('Unable to')) {
         statusCode = 500
         errorMessage = error.message
@@ -275,12 +342,3 @@ async function estimateMissesLogged(originalText: string, rulesApplied: any[]):
 function generateSessionId(): string {
   return 'sess_' + Date.now() + '_' + Math.random().toString(36).substring(2, 15)
 }
-
-/**
- * Get client IP for rate limiting (if needed later)
- */
-function getClientIP(req: NextApiRequest): string {
-  const forwarded = req.headers['x-forwarded-for']
-  const ip = (typeof forwarded === 'string' ? forwarded.split(',')[0] : req.socket.remoteAddress) || 'unknown'
-  return ip.trim()
-}
\ No newline at end of file